@@ -0,0 +1,47 @@
+import { MarketAnalyticsService } from '../services/market-analytics.service';
+import type { MarketGrouping } from '../types/real-estate.types';
+import { Router } from './http';
+import { LISTING_TYPES, PROPERTY_TYPES } from './listings.routes';
+import { assertKnownParams, optionalEnum, optionalNumber, optionalString } from './validation';
+
+const GROUPINGS: MarketGrouping[] = ['district', 'neighborhood', 'bedrooms'];
+
+/**
+ * Real estate market analytics (materialized on a schedule):
+ *   GET /analytics/market          ?groupBy=&district=&neighborhood=&listingType=
+ *                                  &propertyType=&bedrooms=&minListings=
+ *   GET /analytics/market/series   ?district=&listingType=
+ *
+ * Both answer { computedAt, items } from the latest run; computedAt is null
+ * until the first refresh has finished.
+ */
+export function registerAnalyticsRoutes(router: Router, analytics: MarketAnalyticsService): void {
+  router.get('/analytics/market', async ({ query }) => {
+    assertKnownParams(query, [
+      'groupBy',
+      'district',
+      'neighborhood',
+      'listingType',
+      'propertyType',
+      'bedrooms',
+      'minListings',
+    ]);
+    return analytics.segments({
+      groupBy: optionalEnum(query, 'groupBy', GROUPINGS),
+      district: optionalString(query, 'district'),
+      neighborhood: optionalString(query, 'neighborhood'),
+      listingType: optionalEnum(query, 'listingType', LISTING_TYPES),
+      propertyType: optionalEnum(query, 'propertyType', PROPERTY_TYPES),
+      bedrooms: optionalNumber(query, 'bedrooms', { min: 0, integer: true }),
+      minListings: optionalNumber(query, 'minListings', { min: 0, integer: true }),
+    });
+  });
+
+  router.get('/analytics/market/series', async ({ query }) => {
+    assertKnownParams(query, ['district', 'listingType']);
+    return analytics.series({
+      district: optionalString(query, 'district'),
+      listingType: optionalEnum(query, 'listingType', LISTING_TYPES),
+    });
+  });
+}
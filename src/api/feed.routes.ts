@@ -0,0 +1,151 @@
+import { once } from 'events';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { MongoServerError } from 'mongodb';
+import { CONFIG } from '../config';
+import {
+  ChangeFeedService,
+  type ChangeFeed,
+  type FeedChangeKind,
+  type FeedCollection,
+  type FeedFilter,
+} from '../services/change-feed.service';
+import { HttpError, Router } from './http';
+import { LISTING_TYPES } from './listings.routes';
+import { assertKnownParams, optionalEnum, optionalString } from './validation';
+
+const KINDS: FeedChangeKind[] = ['insert', 'update', 'delist'];
+
+// Server error codes met when opening a change stream
+const CHANGE_STREAM_HISTORY_LOST = 286;
+const NOT_A_REPLICA_SET = 40573;
+
+/**
+ * Change feed endpoints (Server-Sent Events):
+ *   GET /feed/products   ?domain=&kinds=&resumeAfter=
+ *   GET /feed/listings   ?domain=&district=&listingType=&kinds=&resumeAfter=
+ *
+ * Each change is a `data:` JSON line whose `id:` is its resume token, so an
+ * EventSource reconnects where it left off via Last-Event-ID. Heartbeats
+ * advance the id too, keeping a quiet feed's token fresh.
+ */
+export function registerFeedRoutes(router: Router, feeds: ChangeFeedService): void {
+  let clients = 0;
+
+  const serve = (collection: FeedCollection, allowed: string[]) =>
+    router.get(`/feed/${collection}`, async ({ req, res, query }) => {
+      assertKnownParams(query, allowed);
+      const filter = parseFeedFilter(query);
+      const resumeAfter = resumeToken(req, query);
+
+      if (clients >= CONFIG.api.maxFeedClients) {
+        throw new HttpError(503, 'Too many change feed clients; retry later');
+      }
+      clients++;
+      try {
+        const feed = await openFeed(feeds, collection, filter, resumeAfter);
+        await streamFeed(req, res, feed);
+      } finally {
+        clients--;
+      }
+    });
+
+  serve('products', ['domain', 'kinds', 'resumeAfter']);
+  serve('listings', ['domain', 'district', 'listingType', 'kinds', 'resumeAfter']);
+}
+
+function parseFeedFilter(query: URLSearchParams): FeedFilter {
+  const kinds = query.get('kinds')?.split(',').map((kind) => kind.trim());
+  const unknown = (kinds || []).filter((kind) => !KINDS.includes(kind as FeedChangeKind));
+  if (unknown.length > 0) {
+    throw new HttpError(400, `"kinds" must be a comma-separated list of: ${KINDS.join(', ')}`);
+  }
+  return {
+    domain: optionalString(query, 'domain'),
+    district: optionalString(query, 'district'),
+    listingType: optionalEnum(query, 'listingType', LISTING_TYPES),
+    kinds: kinds as FeedChangeKind[] | undefined,
+  };
+}
+
+/** Last-Event-ID (set by a reconnecting EventSource) wins over `resumeAfter` */
+function resumeToken(req: IncomingMessage, query: URLSearchParams): string | undefined {
+  const header = req.headers['last-event-id'];
+  const token = (Array.isArray(header) ? header[0] : header) || query.get('resumeAfter');
+  if (!token) return undefined;
+  if (!ChangeFeedService.isResumeToken(token)) {
+    throw new HttpError(400, 'Malformed resume token');
+  }
+  return token;
+}
+
+async function openFeed(
+  feeds: ChangeFeedService,
+  collection: FeedCollection,
+  filter: FeedFilter,
+  resumeAfter?: string
+): Promise<ChangeFeed> {
+  try {
+    return await feeds.open(collection, filter, resumeAfter);
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === CHANGE_STREAM_HISTORY_LOST) {
+      throw new HttpError(410, 'Resume token is no longer in the oplog; reconnect without it');
+    }
+    if (error instanceof MongoServerError && error.code === NOT_A_REPLICA_SET) {
+      throw new HttpError(503, 'Change feeds need MongoDB running as a replica set');
+    }
+    throw error;
+  }
+}
+
+async function streamFeed(
+  req: IncomingMessage,
+  res: ServerResponse,
+  feed: ChangeFeed
+): Promise<void> {
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+    void feed.close();
+  });
+  // The client may have gone while the feed was opening
+  if (req.destroyed || res.destroyed) {
+    await feed.close();
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+
+  const heartbeat = setInterval(() => {
+    const token = feed.resumeToken();
+    res.write(token ? `: heartbeat\nid: ${token}\n\n` : ': heartbeat\n\n');
+  }, CONFIG.api.feedHeartbeatSeconds * 1000);
+
+  try {
+    for await (const event of feed.events) {
+      if (closed) break;
+      if (!res.write(`id: ${event.token}\ndata: ${JSON.stringify(event)}\n\n`)) {
+        // 'close' may already have fired, so check before waiting for either
+        if (closed || res.destroyed) break;
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+      }
+      if (closed) break;
+    }
+  } catch (error) {
+    // Closing the feed on disconnect ends iteration with an error
+    if (!closed) {
+      console.error('Change feed failed:', error);
+      res.write(`event: error\ndata: ${JSON.stringify({ message: 'Change feed failed' })}\n\n`);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    await feed.close();
+    res.end();
+  }
+}
@@ -0,0 +1,142 @@
+import { ChangeLogService } from '../services/change-log.service';
+import { PriceObservationService } from '../services/price-observation.service';
+import { ProductVersionService } from '../services/product-version.service';
+import { HttpError, Router } from './http';
+import {
+  assertKnownParams,
+  bodyParams,
+  optionalDate,
+  optionalNumber,
+  optionalString,
+  pagination,
+  PAGINATION_PARAMS,
+} from './validation';
+
+export interface HistoryServices {
+  changeLog: ChangeLogService;
+  versions: ProductVersionService;
+  prices: PriceObservationService;
+}
+
+/** Record paths the history endpoints hang off, with their id param */
+const RECORDS = [
+  { path: '/products/:domain/:productId', id: 'productId' },
+  { path: '/listings/:domain/:listingId', id: 'listingId' },
+];
+
+/** uniqueKey of the record addressed by the path, as the storage services build it */
+function recordKey(params: Record<string, string>, id: string): string {
+  return `${params.domain}:${params[id]}`;
+}
+
+/** `from`/`to` ISO dates, rejecting an inverted window */
+function timeWindow(query: URLSearchParams): { from?: Date; to?: Date } {
+  const from = optionalDate(query, 'from');
+  const to = optionalDate(query, 'to');
+  if (from && to && from > to) {
+    throw new HttpError(400, '"from" must not be after "to"');
+  }
+  return { from, to };
+}
+
+/** A required `from` plus `to` (default now) for the price window queries */
+function priceWindow(query: URLSearchParams): { from: Date; to: Date } {
+  const { from, to = new Date() } = timeWindow(query);
+  if (!from) throw new HttpError(400, '"from" is required');
+  if (from > to) throw new HttpError(400, '"from" must not be after now');
+  return { from, to };
+}
+
+/** An IANA timezone name such as America/Lima */
+function optionalTimezone(query: URLSearchParams, name: string): string | undefined {
+  const timezone = optionalString(query, name, 64);
+  if (timezone === undefined) return undefined;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new HttpError(400, `"${name}" must be an IANA timezone such as America/Lima`);
+  }
+  return timezone;
+}
+
+/**
+ * History of a product or listing (both under /products/:domain/:productId
+ * and /listings/:domain/:listingId):
+ *   GET .../changes      ?field=&from=&to=   field-level change timeline (paginated)
+ *   GET .../prices       ?at=                price in effect at a time (default now)
+ *   GET .../prices/stats ?from=&to=          min/max/avg per currency over a window
+ *   GET .../prices/daily ?from=&to=&timezone= daily open/close/min/max/avg
+ * and, for products only:
+ *   GET .../versions                         version list, newest first (paginated)
+ *   GET .../versions?asOf=                   the version stored at that date
+ *   GET .../versions/:version                one version's snapshot
+ */
+export function registerHistoryRoutes(router: Router, services: HistoryServices): void {
+  for (const { path, id } of RECORDS) {
+    router.get(`${path}/changes`, async ({ params, query }) => {
+      assertKnownParams(query, ['field', 'from', 'to', ...PAGINATION_PARAMS]);
+      const { cursor, pageSize } = pagination(query);
+
+      const page = await services.changeLog.getTimeline(recordKey(params, id), {
+        field: optionalString(query, 'field'),
+        ...timeWindow(query),
+        cursor,
+        limit: pageSize,
+      });
+      return { items: page.items, pageSize, nextCursor: page.nextCursor };
+    });
+
+    router.get(`${path}/prices`, async ({ params, query }) => {
+      assertKnownParams(query, ['at']);
+      const uniqueKey = recordKey(params, id);
+      const at = optionalDate(query, 'at') || new Date();
+      const observation = await services.prices.priceAt(uniqueKey, at);
+      if (!observation) {
+        throw new HttpError(404, `No price observed for ${uniqueKey} by ${at.toISOString()}`);
+      }
+      return observation;
+    });
+
+    router.get(`${path}/prices/stats`, async ({ params, query }) => {
+      assertKnownParams(query, ['from', 'to']);
+      const { from, to } = priceWindow(query);
+      return { items: await services.prices.windowStats(recordKey(params, id), from, to) };
+    });
+
+    router.get(`${path}/prices/daily`, async ({ params, query }) => {
+      assertKnownParams(query, ['from', 'to', 'timezone']);
+      const { from, to } = priceWindow(query);
+      const timezone = optionalTimezone(query, 'timezone');
+      return { items: await services.prices.daily(recordKey(params, id), from, to, timezone) };
+    });
+  }
+
+  router.get('/products/:domain/:productId/versions', async ({ params, query }) => {
+    const uniqueKey = recordKey(params, 'productId');
+    if (query.has('asOf')) {
+      assertKnownParams(query, ['asOf']);
+      const asOf = optionalDate(query, 'asOf')!;
+      const version = await services.versions.getAsOf(uniqueKey, asOf);
+      if (!version) {
+        throw new HttpError(404, `Product ${uniqueKey} has no version as of ${asOf.toISOString()}`);
+      }
+      return version;
+    }
+
+    assertKnownParams(query, PAGINATION_PARAMS);
+    const { cursor, pageSize } = pagination(query);
+    const page = await services.versions.listVersions(uniqueKey, { cursor, limit: pageSize });
+    return { items: page.items, pageSize, nextCursor: page.nextCursor };
+  });
+
+  router.get('/products/:domain/:productId/versions/:version', async ({ params, query }) => {
+    assertKnownParams(query, []);
+    const uniqueKey = recordKey(params, 'productId');
+    const number = optionalNumber(bodyParams(params), 'version', { min: 1, integer: true })!;
+    const version = await services.versions.getVersion(uniqueKey, number);
+    if (!version) {
+      throw new HttpError(404, `Product ${uniqueKey} has no version ${number}`);
+    }
+    return version;
+  });
+}
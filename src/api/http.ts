@@ -0,0 +1,183 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { InvalidCursorError } from '../utils/cursor';
+
+/**
+ * Error with an HTTP status, rendered as `{ error: { status, message } }`.
+ * An InvalidCursorError becomes a 400; anything else thrown by a handler
+ * becomes a 500.
+ */
+export class HttpError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+/**
+ * Route handler. The returned value is sent as a 200 JSON response, unless
+ * the handler already wrote the response itself (streams, SSE).
+ */
+export type Handler = (ctx: RequestContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: Handler;
+}
+
+/**
+ * Router
+ * Minimal method + path router over node:http. Patterns are literal
+ * segments and `:name` params, e.g. `/products/:domain/:productId`;
+ * literal segments win over params.
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  get(pattern: string, handler: Handler): this {
+    return this.add('GET', pattern, handler);
+  }
+
+  post(pattern: string, handler: Handler): this {
+    return this.add('POST', pattern, handler);
+  }
+
+  put(pattern: string, handler: Handler): this {
+    return this.add('PUT', pattern, handler);
+  }
+
+  delete(pattern: string, handler: Handler): this {
+    return this.add('DELETE', pattern, handler);
+  }
+
+  add(method: string, pattern: string, handler: Handler): this {
+    this.routes.push({ method, segments: splitPath(pattern), handler });
+    // Fewer params first, so literal segments win over `:name` params
+    this.routes.sort((a, b) => paramCount(a.segments) - paramCount(b.segments));
+    return this;
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const segments = splitPath(url.pathname);
+
+      const matches = this.routes
+        .map((route) => ({ route, params: matchSegments(route.segments, segments) }))
+        .filter((m): m is { route: Route; params: Record<string, string> } => m.params !== null);
+      if (matches.length === 0) {
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+
+      const match = matches.find((m) => m.route.method === req.method);
+      if (!match) {
+        res.setHeader('Allow', [...new Set(matches.map((m) => m.route.method))].join(', '));
+        throw new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`);
+      }
+
+      const result = await match.route.handler({
+        req,
+        res,
+        params: match.params,
+        query: url.searchParams,
+      });
+      if (!res.headersSent) sendJson(res, 200, result ?? null);
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+/** Parse a JSON object request body (at most `maxBytes`). */
+export async function readJson(
+  req: IncomingMessage,
+  maxBytes: number = 64 * 1024
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    chunks.push(chunk);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function sendError(res: ServerResponse, error: unknown): void {
+  const status =
+    error instanceof HttpError ? error.status : error instanceof InvalidCursorError ? 400 : 500;
+  if (status === 500) console.error('API request failed:', error);
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  sendJson(res, status, {
+    error: {
+      status,
+      message: status === 500 ? 'Internal server error' : (error as Error).message,
+      ...(error instanceof HttpError && error.details !== undefined && { details: error.details }),
+    },
+  });
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function paramCount(segments: string[]): number {
+  return segments.filter((segment) => segment.startsWith(':')).length;
+}
+
+function matchSegments(pattern: string[], path: string[]): Record<string, string> | null {
+  if (pattern.length !== path.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodeSegment(path[i]);
+    } else if (pattern[i] !== path[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed percent-encoding in path segment: ${segment}`);
+  }
+}
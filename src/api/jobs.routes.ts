@@ -0,0 +1,39 @@
+import { StorageService } from '../services/storage.service';
+import { Router } from './http';
+import {
+  assertKnownParams,
+  optionalDate,
+  optionalEnum,
+  optionalString,
+  pagination,
+  PAGINATION_PARAMS,
+} from './validation';
+
+/**
+ * scrape_jobs endpoints:
+ *   GET /jobs     browse stored results, newest first, without payloads
+ */
+export function registerJobRoutes(router: Router, storage: StorageService): void {
+  router.get('/jobs', async ({ query }) => {
+    assertKnownParams(query, [
+      'domain',
+      'state',
+      'fetchedFrom',
+      'fetchedTo',
+      'sort',
+      ...PAGINATION_PARAMS,
+    ]);
+
+    const { cursor, pageSize } = pagination(query);
+    const filter = {
+      domain: optionalString(query, 'domain'),
+      state: optionalEnum(query, 'state', ['completed', 'failed', 'unknown'] as const),
+      fetchedFrom: optionalDate(query, 'fetchedFrom'),
+      fetchedTo: optionalDate(query, 'fetchedTo'),
+    };
+
+    const sort = optionalEnum(query, 'sort', ['newest', 'recent'] as const);
+    const page = await storage.browseResults(filter, { cursor, limit: pageSize, sort });
+    return { items: page.items, pageSize, nextCursor: page.nextCursor };
+  });
+}
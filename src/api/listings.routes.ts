@@ -0,0 +1,168 @@
+import {
+  RealEstateStorageService,
+  type ListingMatch,
+} from '../services/real-estate-storage.service';
+import type { ListingSearchQuery } from '../types/real-estate.types';
+import { HttpError, Router } from './http';
+import {
+  assertKnownParams,
+  optionalDate,
+  optionalEnum,
+  optionalNumber,
+  optionalPoint,
+  optionalPolygon,
+  optionalString,
+  pagination,
+  PAGINATION_PARAMS,
+} from './validation';
+
+export const LISTING_TYPES = ['sale', 'rent', 'vacation_rental', 'shared', 'other'] as const;
+export const PROPERTY_TYPES = [
+  'apartment',
+  'house',
+  'condo',
+  'land',
+  'commercial',
+  'office',
+  'other',
+] as const;
+const SORTS = ['recent', 'newest', 'price_asc', 'price_desc', 'distance'] as const;
+
+/** Parse a min/max pair, rejecting inverted ranges */
+function range<T extends number | Date>(
+  query: URLSearchParams,
+  minName: string,
+  maxName: string,
+  parse: (query: URLSearchParams, name: string) => T | undefined
+): [T | undefined, T | undefined] {
+  const min = parse(query, minName);
+  const max = parse(query, maxName);
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new HttpError(400, `"${minName}" must not exceed "${maxName}"`);
+  }
+  return [min, max];
+}
+
+const count = (query: URLSearchParams, name: string) =>
+  optionalNumber(query, name, { min: 0, integer: true });
+const amount = (query: URLSearchParams, name: string) => optionalNumber(query, name, { min: 0 });
+
+/** API form of a listing, with the delisting state spelled out */
+function toApiListing(listing: ListingMatch) {
+  const { priceHistory, active, delistedAt, pendingEvents, delistedEventPending, ...rest } =
+    listing;
+  return {
+    ...rest,
+    active,
+    delistedAt: delistedAt ?? null,
+    priceHistory: priceHistory || [],
+  };
+}
+
+/** Query parameters accepted as listing filters (search and saved searches) */
+export const LISTING_FILTER_PARAMS = [
+  'domain',
+  'listingType',
+  'propertyType',
+  'district',
+  'neighborhood',
+  'q',
+  'minPrice',
+  'maxPrice',
+  'currency',
+  'minBedrooms',
+  'maxBedrooms',
+  'minBathrooms',
+  'maxBathrooms',
+  'minArea',
+  'maxArea',
+  'firstSeenFrom',
+  'firstSeenTo',
+  'near',
+  'radius',
+  'polygon',
+  'status',
+];
+
+/** Listing search filters from LISTING_FILTER_PARAMS (no sort or pagination) */
+export function parseListingFilters(query: URLSearchParams): ListingSearchQuery {
+  const [minPrice, maxPrice] = range(query, 'minPrice', 'maxPrice', amount);
+  const [minBedrooms, maxBedrooms] = range(query, 'minBedrooms', 'maxBedrooms', count);
+  const [minBathrooms, maxBathrooms] = range(query, 'minBathrooms', 'maxBathrooms', count);
+  const [minArea, maxArea] = range(query, 'minArea', 'maxArea', amount);
+  const [firstSeenFrom, firstSeenTo] = range(query, 'firstSeenFrom', 'firstSeenTo', optionalDate);
+
+  const point = optionalPoint(query, 'near');
+  const radius = optionalNumber(query, 'radius', { min: 1 });
+  if (!point && radius !== undefined) {
+    throw new HttpError(400, '"radius" requires "near"');
+  }
+  if (point && query.has('q')) {
+    // MongoDB cannot combine $text with $geoNear
+    throw new HttpError(400, '"q" cannot be combined with "near"');
+  }
+
+  return {
+    domain: optionalString(query, 'domain'),
+    listingType: optionalEnum(query, 'listingType', LISTING_TYPES),
+    propertyType: optionalEnum(query, 'propertyType', PROPERTY_TYPES),
+    district: optionalString(query, 'district'),
+    neighborhood: optionalString(query, 'neighborhood'),
+    textSearch: optionalString(query, 'q'),
+    minPrice,
+    maxPrice,
+    priceCurrency: optionalEnum(query, 'currency', ['PEN', 'USD'] as const),
+    minBedrooms,
+    maxBedrooms,
+    minBathrooms,
+    maxBathrooms,
+    minArea,
+    maxArea,
+    firstSeenFrom,
+    firstSeenTo,
+    near: point && { ...point, maxDistanceMeters: radius },
+    withinPolygon: optionalPolygon(query, 'polygon'),
+    status: optionalEnum(query, 'status', ['active', 'delisted', 'all'] as const),
+  };
+}
+
+/**
+ * Listing endpoints:
+ *   GET /listings                        search (paginated), optionally geospatial
+ *   GET /listings/stats                  counts by type and district
+ *   GET /listings/:domain/:listingId     detail, with priceHistory and delisting state
+ */
+export function registerListingRoutes(router: Router, listings: RealEstateStorageService): void {
+  router.get('/listings', async ({ query }) => {
+    assertKnownParams(query, [...LISTING_FILTER_PARAMS, 'sort', ...PAGINATION_PARAMS]);
+
+    const { cursor, pageSize } = pagination(query);
+    const filters = parseListingFilters(query);
+    const sort = optionalEnum(query, 'sort', SORTS);
+    if (sort === 'distance' && !filters.near) {
+      throw new HttpError(400, 'sort=distance requires "near"');
+    }
+    const search = { ...filters, sort };
+
+    const [page, total] = await Promise.all([
+      listings.searchListings({ ...search, limit: pageSize, cursor }),
+      listings.countListings(search),
+    ]);
+
+    return { items: page.items.map(toApiListing), pageSize, nextCursor: page.nextCursor, total };
+  });
+
+  router.get('/listings/stats', async ({ query }) => {
+    assertKnownParams(query, []);
+    return listings.getStats();
+  });
+
+  router.get('/listings/:domain/:listingId', async ({ params, query }) => {
+    assertKnownParams(query, []);
+    const listing = await listings.getListing(params.domain, params.listingId);
+    if (!listing) {
+      throw new HttpError(404, `Listing ${params.domain}:${params.listingId} not found`);
+    }
+    return toApiListing(listing);
+  });
+}
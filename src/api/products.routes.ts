@@ -0,0 +1,82 @@
+import { ProductStorageService } from '../services/product-storage.service';
+import type { StoredProduct } from '../types/product.types';
+import { HttpError, Router } from './http';
+import {
+  assertKnownParams,
+  optionalBoolean,
+  optionalEnum,
+  optionalNumber,
+  optionalString,
+  pagination,
+  PAGINATION_PARAMS,
+} from './validation';
+
+const SORTS = ['newest', 'recent', 'price_asc', 'price_desc'] as const;
+
+/** API form of a product: the stored doc without the bulky rawData and outbox bookkeeping */
+function toApiProduct(product: StoredProduct): Omit<StoredProduct, 'rawData' | 'pendingEvents'> {
+  const { rawData, pendingEvents, ...rest } = product;
+  return rest;
+}
+
+/**
+ * Product endpoints:
+ *   GET /products                        search (paginated)
+ *   GET /products/stats                  counts by domain and brand
+ *   GET /products/:domain/:productId     detail, with priceHistory
+ */
+export function registerProductRoutes(router: Router, products: ProductStorageService): void {
+  router.get('/products', async ({ query }) => {
+    assertKnownParams(query, [
+      'domain',
+      'brand',
+      'q',
+      'minPrice',
+      'maxPrice',
+      'currency',
+      'sort',
+      'includeInactive',
+      ...PAGINATION_PARAMS,
+    ]);
+
+    const { cursor, pageSize } = pagination(query);
+    const minPrice = optionalNumber(query, 'minPrice', { min: 0 });
+    const maxPrice = optionalNumber(query, 'maxPrice', { min: 0 });
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      throw new HttpError(400, '"minPrice" must not exceed "maxPrice"');
+    }
+    const sort = optionalEnum(query, 'sort', SORTS);
+
+    const search = {
+      domain: optionalString(query, 'domain'),
+      brand: optionalString(query, 'brand'),
+      textSearch: optionalString(query, 'q'),
+      minPrice,
+      maxPrice,
+      priceCurrency: optionalEnum(query, 'currency', ['PEN', 'USD'] as const),
+      sort,
+      includeInactive: optionalBoolean(query, 'includeInactive'),
+    };
+
+    const [page, total] = await Promise.all([
+      products.searchProducts({ ...search, limit: pageSize, cursor }),
+      products.countProducts(search),
+    ]);
+
+    return { items: page.items.map(toApiProduct), pageSize, nextCursor: page.nextCursor, total };
+  });
+
+  router.get('/products/stats', async ({ query }) => {
+    assertKnownParams(query, ['includeInactive']);
+    return products.getStats({ includeInactive: optionalBoolean(query, 'includeInactive') });
+  });
+
+  router.get('/products/:domain/:productId', async ({ params, query }) => {
+    assertKnownParams(query, []);
+    const product = await products.getProduct(params.domain, params.productId);
+    if (!product) {
+      throw new HttpError(404, `Product ${params.domain}:${params.productId} not found`);
+    }
+    return toApiProduct(product);
+  });
+}
@@ -0,0 +1,82 @@
+import { SavedSearchService } from '../services/saved-search.service';
+import { HttpError, readJson, Router, sendJson } from './http';
+import { LISTING_FILTER_PARAMS, parseListingFilters } from './listings.routes';
+import {
+  assertKnownParams,
+  bodyParams,
+  optionalNotifiers,
+  pagination,
+  PAGINATION_PARAMS,
+} from './validation';
+
+/**
+ * Saved search endpoints:
+ *   GET    /searches              list
+ *   POST   /searches              create: { name, notifiers?, ...listing filters }
+ *   GET    /searches/alerts       alerts of every search, newest first (paginated)
+ *   GET    /searches/:id          detail
+ *   DELETE /searches/:id          delete (alerts are kept)
+ *   GET    /searches/:id/alerts   alerts of one search, newest first (paginated)
+ *
+ * Filters in the POST body use the GET /listings query parameter names and
+ * formats, e.g. { "name": "...", "listingType": "rent", "maxPrice": 4000 }.
+ */
+export function registerSearchRoutes(router: Router, searches: SavedSearchService): void {
+  router.get('/searches', async ({ query }) => {
+    assertKnownParams(query, []);
+    return { items: await searches.list() };
+  });
+
+  router.post('/searches', async ({ req, res, query }) => {
+    assertKnownParams(query, []);
+    const { name, notifiers, ...filters } = await readJson(req);
+
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new HttpError(400, '"name" must be a non-empty string');
+    }
+    const notifierNames = optionalNotifiers(notifiers, searches.notifierNames());
+
+    // Reuse the query-string parsing of GET /listings
+    const params = bodyParams(filters);
+    assertKnownParams(params, LISTING_FILTER_PARAMS);
+
+    const search = await searches.create({
+      name: name.trim(),
+      query: parseListingFilters(params),
+      notifiers: notifierNames,
+    });
+    sendJson(res, 201, search);
+  });
+
+  router.get('/searches/alerts', async ({ query }) => {
+    assertKnownParams(query, PAGINATION_PARAMS);
+    const { cursor, pageSize } = pagination(query);
+    const page = await searches.listAlerts(undefined, { cursor, limit: pageSize });
+    return { items: page.items, pageSize, nextCursor: page.nextCursor };
+  });
+
+  router.get('/searches/:id', async ({ params, query }) => {
+    assertKnownParams(query, []);
+    const search = await searches.get(params.id);
+    if (!search) throw new HttpError(404, `Saved search ${params.id} not found`);
+    return search;
+  });
+
+  router.delete('/searches/:id', async ({ params, query, res }) => {
+    assertKnownParams(query, []);
+    if (!(await searches.remove(params.id))) {
+      throw new HttpError(404, `Saved search ${params.id} not found`);
+    }
+    res.writeHead(204).end();
+  });
+
+  router.get('/searches/:id/alerts', async ({ params, query }) => {
+    assertKnownParams(query, PAGINATION_PARAMS);
+    if (!(await searches.get(params.id))) {
+      throw new HttpError(404, `Saved search ${params.id} not found`);
+    }
+    const { cursor, pageSize } = pagination(query);
+    const page = await searches.listAlerts(params.id, { cursor, limit: pageSize });
+    return { items: page.items, pageSize, nextCursor: page.nextCursor };
+  });
+}
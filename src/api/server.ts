@@ -0,0 +1,38 @@
+import { createServer, Server } from 'http';
+import { Router } from './http';
+
+/**
+ * ApiServer
+ * Serves the HTTP query API over node:http.
+ */
+export class ApiServer {
+  private router: Router;
+  private server: Server | null = null;
+
+  constructor(router: Router) {
+    this.router = router;
+  }
+
+  async start(port: number): Promise<void> {
+    this.server = createServer((req, res) => {
+      void this.router.handle(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, () => resolve());
+    });
+    console.log(`HTTP API listening on port ${port}`);
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+
+    // Long-lived connections (keep-alive, streams) must not block shutdown
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log('HTTP API closed');
+  }
+}
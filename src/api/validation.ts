@@ -0,0 +1,157 @@
+import { CONFIG } from '../config';
+import { HttpError } from './http';
+
+/**
+ * Query-string validation helpers. Each returns undefined when the
+ * parameter is absent and throws a 400 HttpError when it is malformed.
+ */
+
+export function assertKnownParams(query: URLSearchParams, allowed: string[]): void {
+  const unknown = [...new Set(query.keys())].filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new HttpError(400, `Unknown query parameter(s): ${unknown.join(', ')}`, { allowed });
+  }
+}
+
+export function optionalString(
+  query: URLSearchParams,
+  name: string,
+  maxLength: number = 200
+): string | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) throw new HttpError(400, `"${name}" must not be empty`);
+  if (trimmed.length > maxLength) {
+    throw new HttpError(400, `"${name}" must be at most ${maxLength} characters`);
+  }
+  return trimmed;
+}
+
+export function optionalNumber(
+  query: URLSearchParams,
+  name: string,
+  range: { min?: number; max?: number; integer?: boolean } = {}
+): number | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new HttpError(400, `"${name}" must be a number`);
+  }
+  if (range.integer && !Number.isInteger(number)) {
+    throw new HttpError(400, `"${name}" must be an integer`);
+  }
+  if (range.min !== undefined && number < range.min) {
+    throw new HttpError(400, `"${name}" must be >= ${range.min}`);
+  }
+  if (range.max !== undefined && number > range.max) {
+    throw new HttpError(400, `"${name}" must be <= ${range.max}`);
+  }
+  return number;
+}
+
+export function optionalBoolean(query: URLSearchParams, name: string): boolean | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  throw new HttpError(400, `"${name}" must be true or false`);
+}
+
+export function optionalEnum<T extends string>(
+  query: URLSearchParams,
+  name: string,
+  values: readonly T[]
+): T | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!values.includes(value as T)) {
+    throw new HttpError(400, `"${name}" must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+export function optionalDate(query: URLSearchParams, name: string): Date | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new HttpError(400, `"${name}" must be an ISO date`);
+  return date;
+}
+
+/**
+ * A JSON request body as query parameters, so bodies are validated with the
+ * same helpers (and messages) as query strings.
+ */
+export function bodyParams(body: Record<string, unknown>): URLSearchParams {
+  return new URLSearchParams(
+    Object.entries(body).map(([key, value]): [string, string] => [key, String(value)])
+  );
+}
+
+/** Optional list of notifier names, each one of `available` */
+export function optionalNotifiers(value: unknown, available: string[]): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw new HttpError(400, '"notifiers" must be an array of notifier names');
+  }
+  const unknown = value.filter((name) => !available.includes(name));
+  if (unknown.length > 0) {
+    throw new HttpError(400, `Unknown notifier(s): ${unknown.join(', ')}`, { available });
+  }
+  return value;
+}
+
+/** "lat,lng" */
+export function optionalPoint(
+  query: URLSearchParams,
+  name: string
+): { lat: number; lng: number } | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  return parsePoint(name, value);
+}
+
+/** "lat,lng;lat,lng;lat,lng[;...]", at least 3 distinct vertices */
+export function optionalPolygon(
+  query: URLSearchParams,
+  name: string
+): Array<{ lat: number; lng: number }> | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const points = value.split(';').map((pair) => parsePoint(name, pair));
+  const distinct = new Set(points.map(({ lat, lng }) => `${lat},${lng}`));
+  if (distinct.size < 3) {
+    throw new HttpError(400, `"${name}" must have at least 3 distinct "lat,lng" vertices`);
+  }
+  return points;
+}
+
+function parsePoint(name: string, value: string): { lat: number; lng: number } {
+  const parts = value.split(',');
+  const [lat, lng] = parts.map((part) => (part.trim() === '' ? NaN : Number(part)));
+  if (parts.length !== 2 || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new HttpError(400, `"${name}" must be "lat,lng" pairs`);
+  }
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new HttpError(400, `"${name}" has coordinates out of range`);
+  }
+  return { lat, lng };
+}
+
+export interface Page {
+  cursor?: string;
+  pageSize: number;
+}
+
+/** `cursor` (a previous response's nextCursor) and `pageSize` (capped at API_MAX_PAGE_SIZE) */
+export function pagination(query: URLSearchParams): Page {
+  const pageSize =
+    optionalNumber(query, 'pageSize', { min: 1, max: CONFIG.api.maxPageSize, integer: true }) ??
+    CONFIG.api.defaultPageSize;
+  return { cursor: optionalString(query, 'cursor', 1000), pageSize };
+}
+
+export const PAGINATION_PARAMS = ['cursor', 'pageSize'];
@@ -0,0 +1,132 @@
+import { CONFIG } from '../config';
+import { ProductWatchService, type ProductWatchInput } from '../services/product-watch.service';
+import { HttpError, readJson, Router, sendJson } from './http';
+import {
+  assertKnownParams,
+  bodyParams,
+  optionalBoolean,
+  optionalEnum,
+  optionalNotifiers,
+  optionalNumber,
+  optionalString,
+  pagination,
+  PAGINATION_PARAMS,
+} from './validation';
+
+const RULE_PARAMS = [
+  'uniqueKey',
+  'brand',
+  'domain',
+  'priceDropPercent',
+  'priceBelow',
+  'priceCurrency',
+  'backInStock',
+  'cooldownMinutes',
+];
+
+/**
+ * Product watch rule endpoints:
+ *   GET    /watches              list
+ *   POST   /watches              create: { name, notifiers?, ...rule fields }
+ *   GET    /watches/alerts       alerts of every rule, newest first (paginated)
+ *   GET    /watches/:id          detail
+ *   DELETE /watches/:id          delete (alerts are kept)
+ *   GET    /watches/:id/alerts   alerts of one rule, newest first (paginated)
+ */
+export function registerWatchRoutes(router: Router, watches: ProductWatchService): void {
+  router.get('/watches', async ({ query }) => {
+    assertKnownParams(query, []);
+    return { items: await watches.list() };
+  });
+
+  router.post('/watches', async ({ req, res, query }) => {
+    assertKnownParams(query, []);
+    const { name, notifiers, ...fields } = await readJson(req);
+
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new HttpError(400, '"name" must be a non-empty string');
+    }
+    const params = bodyParams(fields);
+    assertKnownParams(params, RULE_PARAMS);
+
+    const rule = await watches.create({
+      name: name.trim(),
+      ...parseRule(params),
+      notifiers: optionalNotifiers(notifiers, watches.notifierNames()),
+    });
+    sendJson(res, 201, rule);
+  });
+
+  router.get('/watches/alerts', async ({ query }) => {
+    assertKnownParams(query, PAGINATION_PARAMS);
+    const { cursor, pageSize } = pagination(query);
+    const page = await watches.listAlerts(undefined, { cursor, limit: pageSize });
+    return { items: page.items, pageSize, nextCursor: page.nextCursor };
+  });
+
+  router.get('/watches/:id', async ({ params, query }) => {
+    assertKnownParams(query, []);
+    const rule = await watches.get(params.id);
+    if (!rule) throw new HttpError(404, `Watch rule ${params.id} not found`);
+    return rule;
+  });
+
+  router.delete('/watches/:id', async ({ params, query, res }) => {
+    assertKnownParams(query, []);
+    if (!(await watches.remove(params.id))) {
+      throw new HttpError(404, `Watch rule ${params.id} not found`);
+    }
+    res.writeHead(204).end();
+  });
+
+  router.get('/watches/:id/alerts', async ({ params, query }) => {
+    assertKnownParams(query, PAGINATION_PARAMS);
+    if (!(await watches.get(params.id))) {
+      throw new HttpError(404, `Watch rule ${params.id} not found`);
+    }
+    const { cursor, pageSize } = pagination(query);
+    const page = await watches.listAlerts(params.id, { cursor, limit: pageSize });
+    return { items: page.items, pageSize, nextCursor: page.nextCursor };
+  });
+}
+
+function parseRule(params: URLSearchParams): Omit<ProductWatchInput, 'name' | 'notifiers'> {
+  const uniqueKey = optionalString(params, 'uniqueKey');
+  const brand = optionalString(params, 'brand');
+  const domain = optionalString(params, 'domain');
+  if (!uniqueKey && !brand && !domain) {
+    throw new HttpError(400, 'One of "uniqueKey", "brand" or "domain" is required');
+  }
+
+  const priceDropPercent = optionalNumber(params, 'priceDropPercent', { min: 0, max: 100 });
+  if (priceDropPercent === 0) {
+    throw new HttpError(400, '"priceDropPercent" must be greater than 0');
+  }
+  const priceBelow = optionalNumber(params, 'priceBelow', { min: 0 });
+  const priceCurrency = optionalEnum(params, 'priceCurrency', ['PEN', 'USD'] as const);
+  const backInStock = optionalBoolean(params, 'backInStock');
+  if (priceDropPercent === undefined && priceBelow === undefined && !backInStock) {
+    throw new HttpError(
+      400,
+      'One of "priceDropPercent", "priceBelow" or "backInStock": true is required'
+    );
+  }
+  if (priceCurrency && priceBelow === undefined) {
+    throw new HttpError(400, '"priceCurrency" requires "priceBelow"');
+  }
+
+  return {
+    match: {
+      ...(uniqueKey && { uniqueKey }),
+      ...(brand && { brand }),
+      ...(domain && { domain }),
+    },
+    ...(priceDropPercent !== undefined && { priceDropPercent }),
+    ...(priceBelow !== undefined && { priceBelow }),
+    ...(priceCurrency && { priceCurrency }),
+    ...(backInStock && { backInStock }),
+    cooldownMinutes:
+      optionalNumber(params, 'cooldownMinutes', { min: 0, integer: true }) ??
+      CONFIG.alerts.watchCooldownMinutes,
+  };
+}
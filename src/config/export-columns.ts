@@ -0,0 +1,110 @@
+/**
+ * Columns available to exports, per collection. `name` is the dot path of
+ * the value in the stored document; nested price/location/details fields
+ * become one column each. Order here is the default column order.
+ */
+
+export type ExportKind = 'products' | 'listings';
+
+export type ExportColumnType = 'string' | 'number' | 'boolean' | 'date' | 'json';
+
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+  // Path inside a priceHistory entry (price history columns only)
+  path?: string;
+}
+
+export const EXPORT_COLUMNS: Record<ExportKind, ExportColumn[]> = {
+  products: [
+    { name: 'uniqueKey', type: 'string' },
+    { name: 'productId', type: 'string' },
+    { name: 'source.domain', type: 'string' },
+    { name: 'source.url', type: 'string' },
+    { name: 'name', type: 'string' },
+    { name: 'brand', type: 'string' },
+    { name: 'category', type: 'string' },
+    { name: 'price.amount', type: 'number' },
+    { name: 'price.currency', type: 'string' },
+    { name: 'price.type', type: 'string' },
+    { name: 'originalPrice.amount', type: 'number' },
+    { name: 'originalPrice.currency', type: 'string' },
+    { name: 'discount.percentage', type: 'number' },
+    { name: 'normalizedPrice.amountPen', type: 'number' },
+    { name: 'normalizedPrice.amountUsd', type: 'number' },
+    { name: 'rating.value', type: 'number' },
+    { name: 'rating.totalReviews', type: 'number' },
+    { name: 'seller.name', type: 'string' },
+    { name: 'availability.homeDelivery', type: 'boolean' },
+    { name: 'availability.pickUpFromStore', type: 'boolean' },
+    { name: 'isSponsored', type: 'boolean' },
+    { name: 'active', type: 'boolean' },
+    { name: 'firstSeenAt', type: 'date' },
+    { name: 'lastSeenAt', type: 'date' },
+    { name: 'lastUpdatedAt', type: 'date' },
+    { name: 'delistedAt', type: 'date' },
+    { name: 'version', type: 'number' },
+  ],
+  listings: [
+    { name: 'uniqueKey', type: 'string' },
+    { name: 'listingId', type: 'string' },
+    { name: 'source.domain', type: 'string' },
+    { name: 'source.url', type: 'string' },
+    { name: 'title', type: 'string' },
+    { name: 'listingType', type: 'string' },
+    { name: 'propertyType', type: 'string' },
+    { name: 'price.amount', type: 'number' },
+    { name: 'price.currency', type: 'string' },
+    { name: 'price.period', type: 'string' },
+    { name: 'price.usdAmount', type: 'number' },
+    { name: 'price.pricePerSqm', type: 'number' },
+    { name: 'price.maintenance', type: 'number' },
+    { name: 'price.maintenanceCurrency', type: 'string' },
+    { name: 'normalizedPrice.amountPen', type: 'number' },
+    { name: 'normalizedPrice.amountUsd', type: 'number' },
+    { name: 'normalizedPrice.pricePerSqmPen', type: 'number' },
+    { name: 'normalizedPrice.pricePerSqmUsd', type: 'number' },
+    { name: 'location.country', type: 'string' },
+    { name: 'location.region', type: 'string' },
+    { name: 'location.city', type: 'string' },
+    { name: 'location.district', type: 'string' },
+    { name: 'location.neighborhood', type: 'string' },
+    { name: 'location.address', type: 'string' },
+    { name: 'location.coordinates.lat', type: 'number' },
+    { name: 'location.coordinates.lng', type: 'number' },
+    { name: 'details.bedrooms', type: 'number' },
+    { name: 'details.bathrooms', type: 'number' },
+    { name: 'details.halfBathrooms', type: 'number' },
+    { name: 'details.parkingSpaces', type: 'number' },
+    { name: 'details.totalArea', type: 'number' },
+    { name: 'details.builtArea', type: 'number' },
+    { name: 'details.lotArea', type: 'number' },
+    { name: 'details.floor', type: 'number' },
+    { name: 'details.totalFloors', type: 'number' },
+    { name: 'details.yearBuilt', type: 'number' },
+    { name: 'details.condition', type: 'string' },
+    { name: 'features', type: 'json' },
+    { name: 'amenities', type: 'json' },
+    { name: 'contact.agency', type: 'string' },
+    { name: 'active', type: 'boolean' },
+    { name: 'firstSeenAt', type: 'date' },
+    { name: 'lastSeenAt', type: 'date' },
+    { name: 'lastUpdatedAt', type: 'date' },
+    { name: 'delistedAt', type: 'date' },
+  ],
+};
+
+/** Appended when price history is expanded to one row per entry */
+export const PRICE_HISTORY_COLUMNS: Record<ExportKind, ExportColumn[]> = {
+  products: [
+    { name: 'priceHistory.amount', type: 'number', path: 'price.amount' },
+    { name: 'priceHistory.currency', type: 'string', path: 'price.currency' },
+    { name: 'priceHistory.recordedAt', type: 'date', path: 'recordedAt' },
+  ],
+  listings: [
+    { name: 'priceHistory.amount', type: 'number', path: 'amount' },
+    { name: 'priceHistory.currency', type: 'string', path: 'currency' },
+    { name: 'priceHistory.usdAmount', type: 'number', path: 'usdAmount' },
+    { name: 'priceHistory.changedAt', type: 'date', path: 'changedAt' },
+  ],
+};
@@ -0,0 +1,170 @@
+import type { CreateCollectionOptions, CreateIndexesOptions, IndexSpecification } from 'mongodb';
+
+export interface IndexDefinition {
+  key: IndexSpecification;
+  options?: CreateIndexesOptions;
+}
+
+/**
+ * Collections that need explicit options, created by MongoConnectionService
+ * on connect when missing.
+ */
+export const COLLECTIONS: Record<string, CreateCollectionOptions> = {
+  price_observations: {
+    timeseries: { timeField: 'observedAt', metaField: 'meta', granularity: 'hours' },
+  },
+};
+
+/**
+ * Indexes for every collection, created by MongoConnectionManager on connect.
+ */
+export const INDEXES: Record<string, IndexDefinition[]> = {
+  scrape_jobs: [
+    { key: { jobId: 1 }, options: { unique: true } },
+    { key: { url: 1 } },
+    { key: { url: 1, storedAt: -1 } },
+    { key: { fetchedAt: -1 } },
+    { key: { storedAt: -1 } },
+    { key: { state: 1 } },
+    { key: { domain: 1 } },
+    { key: { domain: 1, state: 1 } },
+    // Retention sweeps and blob reference checks
+    { key: { state: 1, storedAt: 1 } },
+    { key: { htmlHash: 1 } },
+    { key: { screenshotHash: 1 } },
+  ],
+
+  products: [
+    // Unique key for upsert (domain:productId)
+    { key: { uniqueKey: 1 }, options: { unique: true } },
+
+    // Query indexes
+    { key: { productId: 1 } },
+    { key: { 'source.domain': 1 } },
+    { key: { brand: 1 } },
+    { key: { 'source.domain': 1, brand: 1 } },
+    { key: { 'price.amount': 1 } },
+    { key: { 'rating.value': -1 } },
+    { key: { lastSeenAt: -1 } },
+    { key: { lastUpdatedAt: -1 } },
+    { key: { firstSeenAt: -1 } },
+    { key: { active: 1, lastSeenAt: -1 } },
+    { key: { 'source.domain': 1, active: 1, lastSeenAt: -1 } },
+    // Default (stable) search order
+    { key: { active: 1, firstSeenAt: -1, _id: 1 } },
+    { key: { 'normalizedPrice.amountPen': 1 } },
+    { key: { 'normalizedPrice.amountUsd': 1 } },
+    // Records whose events are not in event_outbox yet
+    { key: { 'pendingEvents.id': 1 }, options: { sparse: true } },
+
+    // Text search
+    { key: { name: 'text', brand: 'text' } },
+  ],
+
+  real_estate_listings: [
+    // Unique key for upsert (domain:listingId)
+    { key: { uniqueKey: 1 }, options: { unique: true } },
+
+    // Query indexes
+    { key: { listingId: 1 } },
+    { key: { 'source.domain': 1 } },
+    { key: { listingType: 1 } },
+    { key: { propertyType: 1 } },
+    { key: { 'location.district': 1 } },
+    { key: { 'location.city': 1 } },
+    { key: { 'price.amount': 1 } },
+    { key: { 'details.bedrooms': 1 } },
+    { key: { 'details.bathrooms': 1 } },
+    { key: { lastSeenAt: -1 } },
+    { key: { firstSeenAt: -1 } },
+    { key: { lastUpdatedAt: -1 } },
+    { key: { active: 1 } },
+    { key: { active: 1, lastSeenAt: -1 } },
+    // Default (stable) search order
+    { key: { active: 1, firstSeenAt: -1, _id: 1 } },
+
+    // Compound indexes for common queries
+    { key: { listingType: 1, 'location.district': 1 } },
+    { key: { propertyType: 1, 'price.amount': 1 } },
+    { key: { 'details.bedrooms': 1, 'location.district': 1 } },
+    { key: { listingType: 1, 'normalizedPrice.amountUsd': 1 } },
+    { key: { 'location.district': 1, 'normalizedPrice.pricePerSqmUsd': 1 } },
+    { key: { 'location.district': 1, 'location.neighborhood': 1 } },
+    { key: { listingType: 1, 'normalizedPrice.amountPen': 1 } },
+    // Records whose events are not in event_outbox yet
+    { key: { 'pendingEvents.id': 1 }, options: { sparse: true } },
+    { key: { delistedEventPending: 1 }, options: { sparse: true } },
+
+    // Text search
+    { key: { title: 'text', description: 'text', 'location.district': 'text' } },
+
+    // Geospatial index on the GeoJSON form of location.coordinates
+    { key: { geo: '2dsphere' } },
+  ],
+
+  extraction_failures: [
+    // One record per job; repeated failures bump attempts
+    { key: { jobId: 1 }, options: { unique: true } },
+    { key: { status: 1, cause: 1 } },
+    { key: { domain: 1, status: 1 } },
+    { key: { lastFailedAt: -1 } },
+  ],
+
+  change_log: [
+    { key: { uniqueKey: 1, changedAt: -1 } },
+    { key: { kind: 1, domain: 1, changedAt: -1 } },
+    { key: { 'changes.field': 1, changedAt: -1 } },
+  ],
+
+  product_versions: [
+    { key: { uniqueKey: 1, version: -1 }, options: { unique: true } },
+    { key: { uniqueKey: 1, recordedAt: -1 } },
+  ],
+
+  migrations: [{ key: { id: 1 }, options: { unique: true } }],
+
+  price_observations: [
+    { key: { 'meta.uniqueKey': 1, observedAt: -1 } },
+    { key: { 'meta.domain': 1, observedAt: -1 } },
+    { key: { jobId: 1 } },
+  ],
+
+  fx_rates: [{ key: { currency: 1, date: -1 }, options: { unique: true } }],
+
+  saved_searches: [{ key: { id: 1 }, options: { unique: true } }],
+
+  listing_alerts: [
+    // One alert per search, listing and observation
+    { key: { searchId: 1, uniqueKey: 1, observedAt: 1 }, options: { unique: true } },
+    { key: { searchId: 1, createdAt: -1 } },
+    { key: { createdAt: -1 } },
+    // Undelivered alerts, in delivery order
+    { key: { pendingDelivery: 1, _id: 1 }, options: { sparse: true } },
+  ],
+
+  product_watches: [{ key: { id: 1 }, options: { unique: true } }],
+
+  product_alerts: [
+    // One alert per rule, product, kind and observation; its prefix also
+    // serves the cooldown lookup
+    { key: { ruleId: 1, uniqueKey: 1, kind: 1, observedAt: 1 }, options: { unique: true } },
+    { key: { ruleId: 1, createdAt: -1 } },
+    { key: { createdAt: -1 } },
+    // Undelivered alerts, in delivery order
+    { key: { pendingDelivery: 1, _id: 1 }, options: { sparse: true } },
+  ],
+
+  event_outbox: [
+    // Events moved from records again after a failed cleanup are stored once
+    { key: { 'event.id': 1 }, options: { unique: true } },
+    // Pending entries in publish order
+    { key: { publishedAt: 1, _id: 1 } },
+    // Published entries are kept a week for inspection, then expire
+    { key: { publishedAt: 1 }, options: { expireAfterSeconds: 7 * 24 * 60 * 60 } },
+  ],
+
+  // Latest run first; older runs are deleted after each refresh
+  market_segments: [{ key: { computedAt: -1, groupBy: 1, district: 1 } }],
+  market_series: [{ key: { computedAt: -1, district: 1, listingType: 1 } }],
+  market_runs: [{ key: { computedAt: -1 } }],
+};
@@ -0,0 +1,271 @@
+import { readFileSync } from 'fs';
+import { CONFIG } from './index';
+import type { RetentionPolicies, RetentionPolicy, Vertical } from '../types';
+
+export interface SiteConfig {
+  // Short site name, stored as scrape_jobs.domain (e.g. 'falabella')
+  id: string;
+  // Hostnames served by this site, without "www."; subdomains also match
+  hosts: string[];
+  vertical: Vertical;
+  // Value extracted records carry in source.domain (part of their uniqueKey).
+  // Defaults to `id`.
+  sourceDomain?: string;
+  // Extraction strategy names to use for this site, in order
+  strategies: string[];
+  currency: string;
+  country: string;
+  locale: string;
+  // Records unseen for this long are marked inactive; overrides the
+  // vertical's default stale window
+  staleAfterHours?: number;
+  // Overrides of the default scrape_jobs payload retention (CONFIG.retention)
+  retention?: Partial<Record<keyof RetentionPolicies, Partial<RetentionPolicy>>>;
+}
+
+/**
+ * Built-in sites. Entries in the file named by SITES_CONFIG_PATH (a JSON
+ * array of SiteConfig) are merged over these by `id`, so sites can be added
+ * or adjusted without code changes.
+ */
+const DEFAULT_SITES: SiteConfig[] = [
+  {
+    id: 'falabella',
+    // Every storefront the Falabella strategy has always handled (any
+    // falabella.com* URL); extraction reads the currency from the price
+    hosts: ['falabella.com.pe', 'falabella.com', 'falabella.com.co', 'falabella.com.ar'],
+    vertical: 'products',
+    strategies: ['Falabella'],
+    currency: 'PEN',
+    country: 'Peru',
+    locale: 'es-PE',
+  },
+  {
+    id: 'urbania',
+    hosts: ['urbania.pe'],
+    vertical: 'real-estate',
+    sourceDomain: 'urbania.pe',
+    strategies: ['Urbania'],
+    currency: 'PEN',
+    country: 'Peru',
+    locale: 'es-PE',
+  },
+  {
+    id: 'adondevivir',
+    hosts: ['adondevivir.com'],
+    vertical: 'real-estate',
+    sourceDomain: 'adondevivir.com',
+    strategies: [],
+    currency: 'PEN',
+    country: 'Peru',
+    locale: 'es-PE',
+  },
+  {
+    id: 'properati',
+    hosts: ['properati.com.pe'],
+    vertical: 'real-estate',
+    sourceDomain: 'properati.com.pe',
+    strategies: [],
+    currency: 'PEN',
+    country: 'Peru',
+    locale: 'es-PE',
+  },
+  {
+    id: 'nexoinmobiliario',
+    hosts: ['nexoinmobiliario.pe'],
+    vertical: 'real-estate',
+    sourceDomain: 'nexoinmobiliario.pe',
+    strategies: [],
+    currency: 'PEN',
+    country: 'Peru',
+    locale: 'es-PE',
+  },
+];
+
+// Common second-level domains (SLDs) in multi-level TLDs
+const COMMON_SLDS = new Set(['com', 'co', 'org', 'net', 'gov', 'edu', 'ac']);
+
+/**
+ * SiteRegistry
+ * Single source of truth for which sites we crawl: maps a URL's host to its
+ * vertical, extraction strategies, currency, country and locale.
+ */
+export class SiteRegistry {
+  private sites: SiteConfig[];
+
+  constructor(sites: SiteConfig[]) {
+    this.sites = sites;
+  }
+
+  /**
+   * Load the built-in sites merged with the optional JSON override file
+   */
+  static load(configPath: string = CONFIG.sites.configPath): SiteRegistry {
+    const sites = DEFAULT_SITES.map((site) => ({ ...site }));
+    if (!configPath) return new SiteRegistry(sites);
+
+    const overrides: Array<Partial<SiteConfig> & { id: string }> = JSON.parse(
+      readFileSync(configPath, 'utf-8')
+    );
+    if (!Array.isArray(overrides)) {
+      throw new Error(`Site config ${configPath} must be a JSON array`);
+    }
+
+    for (const override of overrides) {
+      if (!override.id) {
+        throw new Error(`Site config ${configPath} has an entry without an id`);
+      }
+      const index = sites.findIndex((site) => site.id === override.id);
+      if (index >= 0) {
+        sites[index] = SiteRegistry.validate({ ...sites[index], ...override }, configPath);
+      } else {
+        sites.push(SiteRegistry.validate(override, configPath));
+      }
+    }
+
+    return new SiteRegistry(sites);
+  }
+
+  private static validate(site: Partial<SiteConfig>, configPath: string): SiteConfig {
+    const required: Array<keyof SiteConfig> = ['hosts', 'vertical', 'currency', 'country', 'locale'];
+    const missing = required.filter((key) => site[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Site ${site.id} in ${configPath} is missing: ${missing.join(', ')}`);
+    }
+    const invalid = (field: string) =>
+      new Error(`Site ${site.id} in ${configPath} has invalid ${field}`);
+    if (site.vertical !== 'products' && site.vertical !== 'real-estate') {
+      throw new Error(`Site ${site.id} in ${configPath} has invalid vertical: ${site.vertical}`);
+    }
+    if (!isStringList(site.hosts) || site.hosts.length === 0) throw invalid('hosts');
+    if (site.strategies !== undefined && !isStringList(site.strategies)) {
+      throw invalid('strategies');
+    }
+    for (const key of ['currency', 'country', 'locale'] as const) {
+      if (typeof site[key] !== 'string' || !site[key]) throw invalid(key);
+    }
+    if (site.sourceDomain !== undefined && typeof site.sourceDomain !== 'string') {
+      throw invalid('sourceDomain');
+    }
+    if (
+      site.staleAfterHours !== undefined &&
+      (typeof site.staleAfterHours !== 'number' || !(site.staleAfterHours > 0))
+    ) {
+      throw invalid('staleAfterHours');
+    }
+    if (site.retention !== undefined && (typeof site.retention !== 'object' || !site.retention)) {
+      throw invalid('retention');
+    }
+    return { strategies: [], ...site } as SiteConfig;
+  }
+
+  /**
+   * Find the site a URL belongs to, or null if it is not registered. The
+   * longest matching host wins; on a tie the later entry does, so a site
+   * added by the override file can take a host over from a built-in one.
+   */
+  resolve(url: string): SiteConfig | null {
+    const hostname = this.hostname(url);
+    if (!hostname) return null;
+
+    let match: SiteConfig | null = null;
+    let matchLength = 0;
+    for (const site of this.sites) {
+      for (const host of site.hosts) {
+        const matches = hostname === host || hostname.endsWith(`.${host}`);
+        if (matches && host.length >= matchLength) {
+          match = site;
+          matchLength = host.length;
+        }
+      }
+    }
+    return match;
+  }
+
+  get(id: string): SiteConfig | null {
+    return this.sites.find((site) => site.id === id) || null;
+  }
+
+  all(): SiteConfig[] {
+    return [...this.sites];
+  }
+
+  /** Vertical of a URL; unregistered sites are treated as product sites. */
+  verticalFor(url: string): Vertical {
+    return this.resolve(url)?.vertical || 'products';
+  }
+
+  /**
+   * Short site name for a URL: the registered id, else derived from the host.
+   * Examples:
+   * - https://www.falabella.com.pe/... -> falabella
+   * - https://amazon.com/... -> amazon
+   * - https://shop.example.co.uk/... -> example
+   */
+  domainFor(url: string): string {
+    const site = this.resolve(url);
+    if (site) return site.id;
+
+    const hostname = this.hostname(url);
+    if (!hostname) return 'unknown';
+
+    const parts = hostname.split('.');
+    if (parts.length >= 3) {
+      // Multi-level TLD (.com.pe, .co.uk): take third from last,
+      // otherwise second from last (subdomain.example.com -> example)
+      const secondToLast = parts[parts.length - 2];
+      return COMMON_SLDS.has(secondToLast) ? parts[parts.length - 3] : secondToLast;
+    }
+    return parts[0];
+  }
+
+  /**
+   * Per-site stale windows (hours) for a vertical, keyed by source.domain.
+   * Sites without `staleAfterHours` are left to the default window.
+   */
+  staleHoursByDomain(vertical: Vertical): Record<string, number> {
+    const windows: Record<string, number> = {};
+    for (const site of this.sites) {
+      if (site.vertical === vertical && site.staleAfterHours !== undefined) {
+        windows[site.sourceDomain || site.id] = site.staleAfterHours;
+      }
+    }
+    return windows;
+  }
+
+  /**
+   * Per-site scrape_jobs retention, keyed by site id (scrape_jobs.domain),
+   * merged over `defaults`. Sites without `retention` are left out.
+   */
+  retentionByDomain(defaults: RetentionPolicies): Record<string, RetentionPolicies> {
+    const policies: Record<string, RetentionPolicies> = {};
+    for (const site of this.sites) {
+      if (!site.retention) continue;
+      policies[site.id] = {
+        completed: { ...defaults.completed, ...site.retention.completed },
+        failed: { ...defaults.failed, ...site.retention.failed },
+      };
+    }
+    return policies;
+  }
+
+  /** Value extracted records from this URL should carry in source.domain. */
+  sourceDomainFor(url: string): string {
+    const site = this.resolve(url);
+    return site ? site.sourceDomain || site.id : this.domainFor(url);
+  }
+
+  private hostname(url: string): string | null {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item);
+}
+
+export const SITES = SiteRegistry.load();
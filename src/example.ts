@@ -1,4 +1,5 @@
 import { ProductExtractorService } from './services/product-extractor.service';
+import { MongoConnectionService } from './services/mongo-connection.service';
 import { ProductStorageService } from './services/product-storage.service';
 import { readFileSync } from 'fs';
 import { join } from 'path';
@@ -11,14 +12,15 @@ async function main() {
 
   // Initialize services (stateless extractor)
   const extractor = new ProductExtractorService();
-  const storage = new ProductStorageService();
+  const mongo = new MongoConnectionService();
+  const storage = new ProductStorageService(mongo);
 
   console.log('Registered strategies:', extractor.getRegisteredStrategies());
   console.log('');
 
   try {
     // Connect to MongoDB
-    await storage.connect();
+    await mongo.connect();
 
     // Example 1: Extract from Falabella Next.js data
     console.log('--- Example 1: Falabella Next.js Data ---');
@@ -87,7 +89,7 @@ async function main() {
     }
 
     // Search products
-    const searchResults = await storage.searchProducts({
+    const { items: searchResults } = await storage.searchProducts({
       domain: 'falabella',
       brand: 'XIAOMI',
       limit: 5,
@@ -108,7 +110,7 @@ async function main() {
   } catch (error) {
     console.error('Error:', error);
   } finally {
-    await storage.close();
+    await mongo.close();
   }
 }
 
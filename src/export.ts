@@ -0,0 +1,130 @@
+import { createWriteStream } from 'fs';
+import { finished } from 'stream/promises';
+import { MongoConnectionService } from './services/mongo-connection.service';
+import { ProductStorageService } from './services/product-storage.service';
+import { RealEstateStorageService } from './services/real-estate-storage.service';
+import { ExportService, type ExportOptions, type ExportRequest } from './services/export.service';
+import type { ExportFormat } from './utils/export-writers';
+
+/**
+ * Export products or listings to CSV, NDJSON or Parquet.
+ *
+ * Usage:
+ *   npm run export -- products|listings --format csv|ndjson|parquet --out file
+ *                     [--columns price.amount,location.district] [--price-history]
+ *                     [--since 2026-03-01T00:00:00Z] [--domain urbania] [--include-inactive]
+ *                     [--listing-type rent] [--property-type apartment] [--district Miraflores]
+ *
+ * The reported "next --since" value continues an incremental export.
+ */
+function parseArgs(argv: string[]): {
+  request: ExportRequest;
+  options: ExportOptions;
+  out: string;
+} {
+  const [kind, ...rest] = argv;
+  if (kind !== 'products' && kind !== 'listings') {
+    throw new Error(`Unknown export: ${kind ?? '(none)'} (expected products or listings)`);
+  }
+
+  const options: ExportOptions = { format: 'csv' };
+  const query: Record<string, any> = {};
+  let out: string | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const next = () => {
+      const value = rest[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--format': {
+        const format = next();
+        if (format !== 'csv' && format !== 'ndjson' && format !== 'parquet') {
+          throw new Error(`Invalid format: ${format}`);
+        }
+        options.format = format as ExportFormat;
+        break;
+      }
+      case '--out':
+        out = next();
+        break;
+      case '--columns':
+        options.columns = next().split(',').map((name) => name.trim()).filter(Boolean);
+        break;
+      case '--price-history':
+        options.priceHistory = true;
+        break;
+      case '--since':
+        query.updatedSince = parseDate(next());
+        break;
+      case '--domain':
+        query.domain = next();
+        break;
+      case '--include-inactive':
+        if (kind === 'products') query.includeInactive = true;
+        else query.status = 'all';
+        break;
+      case '--listing-type':
+        query.listingType = listingsOnly(kind, arg, next());
+        break;
+      case '--property-type':
+        query.propertyType = listingsOnly(kind, arg, next());
+        break;
+      case '--district':
+        query.district = listingsOnly(kind, arg, next());
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!out) throw new Error('Missing --out file');
+  return { request: { kind, query } as ExportRequest, options, out };
+}
+
+function listingsOnly(kind: string, arg: string, value: string): string {
+  if (kind !== 'listings') throw new Error(`${arg} only applies to listings`);
+  return value;
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+  return date;
+}
+
+async function main() {
+  const { request, options, out } = parseArgs(process.argv.slice(2));
+
+  const mongo = new MongoConnectionService();
+  const exporter = new ExportService(
+    new ProductStorageService(mongo),
+    new RealEstateStorageService(mongo)
+  );
+  // Fail on bad column names before connecting
+  exporter.columnsFor(request.kind, options);
+
+  try {
+    await mongo.connect();
+
+    const stream = createWriteStream(out);
+    const report = await exporter.export(request, options, stream);
+    stream.end();
+    await finished(stream);
+
+    console.log(`✓ Exported ${report.records} ${request.kind} (${report.rows} rows) to ${out}`);
+    if (report.lastUpdatedAt) {
+      console.log(`Next incremental export: --since ${report.lastUpdatedAt.toISOString()}`);
+    }
+  } finally {
+    await mongo.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Export failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+import { MongoConnectionService } from './services/mongo-connection.service';
+import { createBlobStore } from './services/blob-store.service';
+import { StorageService } from './services/storage.service';
+import { ProductStorageService } from './services/product-storage.service';
+import { RealEstateStorageService } from './services/real-estate-storage.service';
+import { ChangeLogService } from './services/change-log.service';
+import { ProductVersionService } from './services/product-version.service';
+import { PriceObservationService } from './services/price-observation.service';
+import { FxRateService } from './services/fx-rate.service';
+import { OutboxService } from './services/outbox.service';
+import { ExtractionFailureService, type FailureFilter } from './services/extraction-failure.service';
+import { ResultProcessorService } from './services/result-processor.service';
+import { ReprocessingService } from './services/reprocessing.service';
+import { CONFIG } from './config';
+import type { ExtractionFailureCause } from './types';
+
+/**
+ * Inspect and retry dead-lettered extraction failures.
+ *
+ * Usage:
+ *   npm run failures -- list   [--cause no_results] [--domain urbania] [--status open] [--limit 50]
+ *   npm run failures -- causes [--status open]
+ *   npm run failures -- retry  [--cause no_results] [--domain urbania] [--job-id 123] [--dry-run]
+ */
+const CAUSES: ExtractionFailureCause[] = [
+  'no_data',
+  'no_strategy',
+  'extraction_error',
+  'no_results',
+  'upsert_errors',
+  'exception',
+];
+
+function parseArgs(argv: string[]): {
+  command: string;
+  filter: FailureFilter;
+  limit: number;
+  dryRun: boolean;
+} {
+  const [command, ...rest] = argv;
+  const filter: FailureFilter = { status: 'open' };
+  let limit = 50;
+  let dryRun = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const next = () => {
+      const value = rest[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--cause': {
+        const cause = next() as ExtractionFailureCause;
+        if (!CAUSES.includes(cause)) throw new Error(`Invalid cause: ${cause}`);
+        filter.cause = cause;
+        break;
+      }
+      case '--domain':
+        filter.domain = next();
+        break;
+      case '--status': {
+        const status = next();
+        if (status !== 'open' && status !== 'resolved' && status !== 'all') {
+          throw new Error(`Invalid status: ${status}`);
+        }
+        filter.status = status === 'all' ? undefined : status;
+        break;
+      }
+      case '--job-id':
+        filter.jobIds = [...(filter.jobIds || []), next()];
+        break;
+      case '--limit':
+        limit = parseInt(next(), 10);
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { command, filter, limit, dryRun };
+}
+
+async function main() {
+  const { command, filter, limit, dryRun } = parseArgs(process.argv.slice(2));
+  if (!['list', 'causes', 'retry'].includes(command)) {
+    throw new Error(`Unknown command: ${command ?? '(none)'} (expected list, causes or retry)`);
+  }
+
+  const mongo = new MongoConnectionService();
+  const storageService = new StorageService(mongo, createBlobStore(mongo));
+  const changeLog = new ChangeLogService(mongo);
+  const productVersions = new ProductVersionService(mongo);
+  const priceObservations = new PriceObservationService(mongo);
+  const fxRates = new FxRateService(mongo);
+  // Events recorded here are published by the running service
+  const outbox = CONFIG.events.enabled ? new OutboxService(mongo) : undefined;
+  const productStorage = new ProductStorageService(
+    mongo,
+    changeLog,
+    productVersions,
+    priceObservations,
+    fxRates,
+    undefined,
+    outbox
+  );
+  const realEstateStorage = new RealEstateStorageService(
+    mongo,
+    changeLog,
+    priceObservations,
+    fxRates,
+    undefined,
+    outbox
+  );
+  const extractionFailures = new ExtractionFailureService(mongo);
+
+  try {
+    await mongo.connect();
+
+    if (command === 'list') {
+      const failures = await extractionFailures.listFailures(filter, { limit });
+      for (const failure of failures) {
+        console.log(
+          `${failure.lastFailedAt.toISOString()}  job ${failure.jobId}  ${failure.cause}  ${failure.domain}  ` +
+            `(${failure.attempts} attempt(s), strategy: ${failure.strategyUsed || '-'})`
+        );
+        failure.errors.forEach((e) => console.log(`    ${e}`));
+        failure.itemErrors.forEach((e) => console.log(`    ${e.uniqueKey}: ${e.error}`));
+      }
+      console.log(`${failures.length} failure(s)`);
+      return;
+    }
+
+    if (command === 'causes') {
+      const summaries = await extractionFailures.groupByCause(filter);
+      console.log(JSON.stringify(summaries, null, 2));
+      return;
+    }
+
+    const reprocessing = new ReprocessingService(
+      storageService,
+      new ResultProcessorService(productStorage, realEstateStorage, extractionFailures),
+      extractionFailures
+    );
+    const report = await reprocessing.retryFailures(filter, { dryRun });
+
+    console.log('\n=== Retry Report ===');
+    console.log(JSON.stringify({ ...report, outcomes: undefined }, null, 2));
+  } finally {
+    await mongo.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Failures command failed:', error);
+  process.exit(1);
+});
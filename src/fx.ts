@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import { MongoConnectionService } from './services/mongo-connection.service';
+import { FxRateService } from './services/fx-rate.service';
+
+/**
+ * Manage the FX rate table used to normalize prices to PEN/USD.
+ * Rates are PEN per 1 unit of the currency.
+ *
+ * Usage:
+ *   npm run fx -- import rates.csv          (lines: date,currency,rate)
+ *   npm run fx -- set USD 2026-03-01 3.71
+ *   npm run fx -- list [USD]
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!['import', 'set', 'list'].includes(command)) {
+    throw new Error(`Unknown command: ${command ?? '(none)'} (expected import, set or list)`);
+  }
+
+  const mongo = new MongoConnectionService();
+  const fxRates = new FxRateService(mongo);
+
+  try {
+    await mongo.connect();
+
+    if (command === 'import') {
+      if (!args[0]) throw new Error('Missing CSV file path');
+      await fxRates.importCsv(readFileSync(args[0], 'utf-8'));
+      return;
+    }
+
+    if (command === 'set') {
+      const [currency, date, rate] = args;
+      if (!currency || !date || !rate) throw new Error('Usage: set <currency> <date> <rate>');
+      await fxRates.setRate(currency.toUpperCase(), new Date(date), parseFloat(rate));
+      console.log(`Set ${currency.toUpperCase()} = ${rate} PEN from ${date}`);
+      return;
+    }
+
+    const rates = await fxRates.listRates({ currency: args[0]?.toUpperCase() });
+    for (const rate of rates) {
+      console.log(`${rate.date.toISOString().slice(0, 10)}  ${rate.currency}  ${rate.rate}  (${rate.source})`);
+    }
+    console.log(`${rates.length} rate(s)`);
+  } finally {
+    await mongo.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('FX command failed:', error);
+  process.exit(1);
+});
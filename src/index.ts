@@ -1,8 +1,36 @@
+import { MongoConnectionService } from './services/mongo-connection.service';
+import { createBlobStore } from './services/blob-store.service';
 import { StorageService } from './services/storage.service';
 import { ProductStorageService } from './services/product-storage.service';
 import { RealEstateStorageService } from './services/real-estate-storage.service';
+import { ChangeLogService } from './services/change-log.service';
+import { ProductVersionService } from './services/product-version.service';
+import { PriceObservationService } from './services/price-observation.service';
+import { FxRateService } from './services/fx-rate.service';
+import { ExtractionFailureService } from './services/extraction-failure.service';
+import { ResultProcessorService } from './services/result-processor.service';
 import { QueueListenerService } from './services/queue-listener.service';
+import { MigrationService } from './services/migration.service';
+import { SavedSearchService } from './services/saved-search.service';
+import { ProductWatchService } from './services/product-watch.service';
+import { OutboxService } from './services/outbox.service';
+import { EventPublisherService } from './services/event-publisher.service';
+import { ChangeFeedService } from './services/change-feed.service';
+import { MarketAnalyticsService } from './services/market-analytics.service';
+import { createNotifiers } from './services/alert-notifier.service';
+import { AlertDispatcherService } from './services/alert-dispatcher.service';
+import { Router } from './api/http';
+import { ApiServer } from './api/server';
+import { registerProductRoutes } from './api/products.routes';
+import { registerListingRoutes } from './api/listings.routes';
+import { registerJobRoutes } from './api/jobs.routes';
+import { registerSearchRoutes } from './api/searches.routes';
+import { registerWatchRoutes } from './api/watches.routes';
+import { registerFeedRoutes } from './api/feed.routes';
+import { registerAnalyticsRoutes } from './api/analytics.routes';
+import { registerHistoryRoutes } from './api/history.routes';
 import { CONFIG } from './config';
+import { SITES } from './config/sites';
 
 async function main() {
   console.log('Starting Extracto Storage Service...');
@@ -10,20 +38,83 @@ async function main() {
   console.log(`MongoDB: ${CONFIG.mongodb.database}`);
   console.log(`Redis: ${CONFIG.redis.host}:${CONFIG.redis.port}`);
 
-  const storageService = new StorageService();
-  const productStorage = new ProductStorageService();
-  const realEstateStorage = new RealEstateStorageService();
-  const queueListener = new QueueListenerService(storageService, productStorage, realEstateStorage);
+  const mongo = new MongoConnectionService();
+  const blobs = createBlobStore(mongo);
+  const storageService = new StorageService(mongo, blobs);
+  const changeLog = new ChangeLogService(mongo);
+  const productVersions = new ProductVersionService(mongo);
+  const priceObservations = new PriceObservationService(mongo);
+  const fxRates = new FxRateService(mongo);
+  const outbox = CONFIG.events.enabled ? new OutboxService(mongo) : undefined;
+  const notifiers = createNotifiers();
+  const productWatches = new ProductWatchService(mongo, notifiers);
+  const productStorage = new ProductStorageService(
+    mongo,
+    changeLog,
+    productVersions,
+    priceObservations,
+    fxRates,
+    productWatches,
+    outbox
+  );
+  const savedSearches = new SavedSearchService(mongo, notifiers);
+  const alertDispatcher = new AlertDispatcherService([savedSearches, productWatches]);
+  const realEstateStorage = new RealEstateStorageService(
+    mongo,
+    changeLog,
+    priceObservations,
+    fxRates,
+    savedSearches,
+    outbox
+  );
+  const eventPublisher = outbox
+    ? new EventPublisherService(outbox, [productStorage, realEstateStorage])
+    : null;
+  const extractionFailures = new ExtractionFailureService(mongo);
+  const processor = new ResultProcessorService(productStorage, realEstateStorage, extractionFailures);
+  const queueListener = new QueueListenerService(storageService, processor);
+  const marketAnalytics = new MarketAnalyticsService(mongo, fxRates);
+
+  const router = new Router();
+  registerProductRoutes(router, productStorage);
+  registerListingRoutes(router, realEstateStorage);
+  registerJobRoutes(router, storageService);
+  registerSearchRoutes(router, savedSearches);
+  registerWatchRoutes(router, productWatches);
+  registerFeedRoutes(router, new ChangeFeedService(mongo));
+  registerAnalyticsRoutes(router, marketAnalytics);
+  registerHistoryRoutes(router, {
+    changeLog,
+    versions: productVersions,
+    prices: priceObservations,
+  });
+  const api = new ApiServer(router);
 
   try {
-    // Connect to MongoDB
-    await storageService.connect();
-    await productStorage.connect();
-    await realEstateStorage.connect();
+    // Connect to MongoDB (one client shared by every storage service)
+    await mongo.connect();
+
+    // Migrations are applied deliberately (npm run migrate -- up), not on startup
+    const pendingMigrations = await new MigrationService(mongo, blobs).pending();
+    if (pendingMigrations.length > 0) {
+      console.warn(
+        `${pendingMigrations.length} pending migration(s): ${pendingMigrations.map((m) => m.id).join(', ')}. Run: npm run migrate -- up`
+      );
+    }
 
     // Start listening to queue
     await queueListener.start();
 
+    // Publish domain events recorded in the outbox (including by CLI runs)
+    eventPublisher?.start();
+
+    // Deliver stored alerts off the upsert path
+    alertDispatcher.start();
+
+    if (CONFIG.api.port > 0) {
+      await api.start(CONFIG.api.port);
+    }
+
     // Print queue stats every 30 seconds
     setInterval(async () => {
       try {
@@ -41,7 +132,7 @@ async function main() {
       }
     }, 30000);
 
-    // Periodically delist real estate listings that have stopped appearing.
+    // Periodically delist listings and products that have stopped appearing.
     const sweepStale = async () => {
       try {
         const cutoff = new Date(Date.now() - CONFIG.staleListingHours * 60 * 60 * 1000);
@@ -49,48 +140,110 @@ async function main() {
       } catch (error) {
         console.error('Stale-listing sweep failed:', error);
       }
+      try {
+        await productStorage.markStaleProductsInactive(
+          CONFIG.staleProductHours,
+          SITES.staleHoursByDomain('products')
+        );
+      } catch (error) {
+        console.error('Stale-product sweep failed:', error);
+      }
     };
     await sweepStale();
     setInterval(sweepStale, CONFIG.staleSweepIntervalMinutes * 60 * 1000);
 
+    // Drop raw html/screenshots past their retention window (metadata is kept)
+    const applyRetention = async () => {
+      try {
+        await storageService.applyRetention(CONFIG.retention, SITES.retentionByDomain(CONFIG.retention));
+      } catch (error) {
+        console.error('Retention sweep failed:', error);
+      }
+    };
+    await applyRetention();
+    setInterval(applyRetention, CONFIG.retention.sweepIntervalMinutes * 60 * 1000);
+
+    // Rebuild market analytics; the first run is not awaited since it scans every listing
+    if (CONFIG.analytics.intervalMinutes > 0) {
+      const refreshAnalytics = async () => {
+        try {
+          await marketAnalytics.refresh(CONFIG.analytics.weeks);
+        } catch (error) {
+          console.error('Market analytics refresh failed:', error);
+        }
+      };
+      void refreshAnalytics();
+      setInterval(refreshAnalytics, CONFIG.analytics.intervalMinutes * 60 * 1000);
+    }
+
     console.log('Extracto Storage Service is running');
-    console.log('✓ Scrape jobs will be saved to: scrape_jobs collection');
+    const blobLocation = CONFIG.blobStore.driver === 'filesystem'
+      ? `filesystem blob store at ${CONFIG.blobStore.path}`
+      : 'GridFS blobs bucket';
+    console.log(`✓ Scrape jobs will be saved to: scrape_jobs collection (html and screenshots in the ${blobLocation})`);
     console.log('✓ Products will be extracted and saved to: products collection');
     console.log('✓ Real estate listings will be extracted and saved to: real_estate_listings collection');
+    console.log('✓ Extraction failures will be recorded to: extraction_failures collection');
+    console.log('✓ Field-level changes will be recorded to: change_log collection');
+    console.log('✓ Product version snapshots will be saved to: product_versions collection');
+    console.log('✓ Price observations will be saved to: price_observations time series');
     console.log(`✓ Listings unseen for ${CONFIG.staleListingHours}h are marked inactive (sweep every ${CONFIG.staleSweepIntervalMinutes}m)`);
+    console.log(`✓ Products unseen for ${CONFIG.staleProductHours}h (or their site's staleAfterHours) are marked inactive`);
+    if (CONFIG.analytics.intervalMinutes > 0) {
+      console.log(`✓ Market analytics will be refreshed every ${CONFIG.analytics.intervalMinutes}m into: market_segments and market_series collections`);
+    }
+    if (eventPublisher) {
+      console.log(`✓ Domain events will be published to: ${CONFIG.events.queueName} queue (via event_outbox)`);
+    }
   } catch (error) {
     console.error('Fatal error:', error);
-    await cleanup(storageService, productStorage, queueListener);
+    await cleanup(queueListener, eventPublisher, alertDispatcher, api, mongo);
     process.exit(1);
   }
 
   // Graceful shutdown
   process.on('SIGTERM', async () => {
     console.log('SIGTERM received, shutting down...');
-    await cleanup(storageService, productStorage, queueListener);
+    await cleanup(queueListener, eventPublisher, alertDispatcher, api, mongo);
     process.exit(0);
   });
 
   process.on('SIGINT', async () => {
     console.log('SIGINT received, shutting down...');
-    await cleanup(storageService, productStorage, queueListener);
+    await cleanup(queueListener, eventPublisher, alertDispatcher, api, mongo);
     process.exit(0);
   });
 }
 
 async function cleanup(
-  storageService: StorageService,
-  productStorage: ProductStorageService,
   queueListener: QueueListenerService,
-  realEstateStorage?: RealEstateStorageService
+  eventPublisher: EventPublisherService | null,
+  alertDispatcher: AlertDispatcherService,
+  api: ApiServer,
+  mongo: MongoConnectionService
 ): Promise<void> {
   try {
     await queueListener.close();
-    await storageService.close();
-    await productStorage.close();
-    if (realEstateStorage) {
-      await realEstateStorage.close();
-    }
+  } catch (error) {
+    console.error('Error closing queue listener:', error);
+  }
+  try {
+    await eventPublisher?.close();
+  } catch (error) {
+    console.error('Error closing event publisher:', error);
+  }
+  try {
+    await alertDispatcher.close();
+  } catch (error) {
+    console.error('Error closing alert dispatcher:', error);
+  }
+  try {
+    await api.close();
+  } catch (error) {
+    console.error('Error closing HTTP API:', error);
+  }
+  try {
+    await mongo.close();
     console.log('Cleanup completed');
   } catch (error) {
     console.error('Error during cleanup:', error);
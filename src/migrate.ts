@@ -0,0 +1,67 @@
+import { MongoConnectionService } from './services/mongo-connection.service';
+import { MigrationService } from './services/migration.service';
+import { createBlobStore } from './services/blob-store.service';
+
+/**
+ * Apply schema migrations (see src/migrations).
+ *
+ * Usage:
+ *   npm run migrate -- status
+ *   npm run migrate -- up [--to 002-backfill-active-flag] [--dry-run]
+ */
+function parseArgs(argv: string[]): { command: string; to?: string; dryRun: boolean } {
+  const [command, ...rest] = argv;
+  let to: string | undefined;
+  let dryRun = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--to':
+        to = rest[++i];
+        if (to === undefined) throw new Error(`Missing value for ${arg}`);
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { command, to, dryRun };
+}
+
+async function main() {
+  const { command, to, dryRun } = parseArgs(process.argv.slice(2));
+  if (command !== 'status' && command !== 'up') {
+    throw new Error(`Unknown command: ${command ?? '(none)'} (expected status or up)`);
+  }
+
+  const mongo = new MongoConnectionService();
+  const migrations = new MigrationService(mongo, createBlobStore(mongo));
+
+  try {
+    await mongo.connect();
+
+    if (command === 'status') {
+      for (const migration of await migrations.status()) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`${migration.id}  ${state}  ${migration.description}`);
+      }
+      return;
+    }
+
+    const runs = await migrations.up({ to, dryRun });
+
+    console.log(`\n=== Migrations${dryRun ? ' (dry run)' : ''} ===`);
+    console.log(JSON.stringify(runs, null, 2));
+  } finally {
+    await mongo.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+import type { Migration } from './migration';
+
+/**
+ * Seed priceHistory for listings stored before history seeding existed, so
+ * the upsert path no longer has to backfill a baseline entry.
+ */
+export const migration: Migration = {
+  id: '001-backfill-listing-price-history',
+  description: 'Seed priceHistory of real_estate_listings that have none',
+
+  async up({ mongo, dryRun }) {
+    const listings = mongo.collection('real_estate_listings');
+    const missing = {
+      $or: [{ priceHistory: { $exists: false } }, { priceHistory: { $size: 0 } }],
+    };
+    const priced = { ...missing, 'price.amount': { $gt: 0 } };
+    const unpriced = { priceHistory: { $exists: false }, 'price.amount': { $not: { $gt: 0 } } };
+
+    if (dryRun) {
+      return (await listings.countDocuments(priced)) + (await listings.countDocuments(unpriced));
+    }
+
+    // Baseline entry at the first observation; a missing usdAmount is omitted
+    const seeded = await listings.updateMany(priced, [
+      {
+        $set: {
+          priceHistory: [
+            {
+              amount: '$price.amount',
+              currency: '$price.currency',
+              usdAmount: '$price.usdAmount',
+              changedAt: '$firstSeenAt',
+            },
+          ],
+        },
+      },
+    ]);
+    const emptied = await listings.updateMany(unpriced, { $set: { priceHistory: [] } });
+
+    return seeded.modifiedCount + emptied.modifiedCount;
+  },
+};
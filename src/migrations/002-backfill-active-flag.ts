@@ -0,0 +1,27 @@
+import type { Migration } from './migration';
+
+/**
+ * Set `active: true` on products and listings stored before delisting
+ * existed, so queries can match `active: true` instead of `$ne: false`.
+ * Records that are actually stale are delisted by the next sweep.
+ */
+export const migration: Migration = {
+  id: '002-backfill-active-flag',
+  description: 'Set active: true on products and real_estate_listings without it',
+
+  async up({ mongo, dryRun }) {
+    const collections = [mongo.collection('products'), mongo.collection('real_estate_listings')];
+    const filter = { active: { $exists: false } };
+
+    let affected = 0;
+    for (const collection of collections) {
+      if (dryRun) {
+        affected += await collection.countDocuments(filter);
+      } else {
+        const result = await collection.updateMany(filter, { $set: { active: true } });
+        affected += result.modifiedCount;
+      }
+    }
+    return affected;
+  },
+};
@@ -0,0 +1,49 @@
+import type { AnyBulkWriteOperation } from 'mongodb';
+import { compressText } from '../utils/compression';
+import type { StoredResultDocument } from '../types';
+import type { Migration } from './migration';
+
+const BATCH_SIZE = 200;
+
+/**
+ * Move html of scrape_jobs saved before compression into gzip-compressed
+ * htmlGz. Empty html is simply removed.
+ */
+export const migration: Migration = {
+  id: '003-compress-scrape-job-html',
+  description: 'Gzip uncompressed scrape_jobs.html into htmlGz',
+
+  async up({ mongo, dryRun }) {
+    const scrapeJobs = mongo.collection('scrape_jobs');
+    const filter = { html: { $exists: true } };
+
+    if (dryRun) {
+      return scrapeJobs.countDocuments(filter);
+    }
+
+    let affected = 0;
+    let batch: AnyBulkWriteOperation<StoredResultDocument>[] = [];
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await scrapeJobs.bulkWrite(batch, { ordered: false });
+      affected += result.modifiedCount;
+      batch = [];
+    };
+
+    const cursor = scrapeJobs.find(filter, { projection: { _id: 1, html: 1 } });
+    for await (const doc of cursor) {
+      batch.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: doc.html
+            ? { $set: { htmlGz: compressText(doc.html) }, $unset: { html: '' } }
+            : { $unset: { html: '' } },
+        },
+      });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    return affected;
+  },
+};
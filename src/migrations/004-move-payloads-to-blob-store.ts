@@ -0,0 +1,56 @@
+import type { AnyBulkWriteOperation } from 'mongodb';
+import { decompressText } from '../utils/compression';
+import type { StoredResultDocument } from '../types';
+import type { Migration } from './migration';
+
+const BATCH_SIZE = 200;
+
+/**
+ * Move inline scrape_jobs payloads (html, htmlGz, screenshot) into the blob
+ * store, leaving htmlHash/screenshotHash references behind.
+ */
+export const migration: Migration = {
+  id: '004-move-payloads-to-blob-store',
+  description: 'Move inline scrape_jobs html/screenshots into the blob store',
+
+  async up({ mongo, blobs, dryRun }) {
+    const scrapeJobs = mongo.collection('scrape_jobs');
+    const filter = {
+      $or: [{ html: { $exists: true } }, { htmlGz: { $exists: true } }, { screenshot: { $exists: true } }],
+    };
+
+    if (dryRun) {
+      return scrapeJobs.countDocuments(filter);
+    }
+
+    let affected = 0;
+    let batch: AnyBulkWriteOperation<StoredResultDocument>[] = [];
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await scrapeJobs.bulkWrite(batch, { ordered: false });
+      affected += result.modifiedCount;
+      batch = [];
+    };
+
+    const cursor = scrapeJobs.find(filter, {
+      projection: { _id: 1, html: 1, htmlGz: 1, screenshot: 1 },
+    });
+    for await (const doc of cursor) {
+      const html = doc.htmlGz ? decompressText(doc.htmlGz) : doc.html;
+      const set: Partial<StoredResultDocument> = {};
+      if (html) set.htmlHash = await blobs.put(Buffer.from(html, 'utf-8'));
+      if (doc.screenshot) set.screenshotHash = await blobs.put(Buffer.from(doc.screenshot, 'utf-8'));
+
+      batch.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: set, $unset: { html: '', htmlGz: '', screenshot: '' } },
+        },
+      });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    return affected;
+  },
+};
@@ -0,0 +1,85 @@
+import type { Collection } from 'mongodb';
+import type { PriceObservation, RecordKind } from '../types';
+import type { Migration, MigrationContext } from './migration';
+
+const BATCH_SIZE = 200;
+
+/**
+ * Seed price_observations from the priceHistory embedded in products and
+ * listings, so the time series also covers prices seen before it existed.
+ * Only price changes were kept there, so that is all that can be recovered.
+ */
+export const migration: Migration = {
+  id: '005-backfill-price-observations',
+  description: 'Copy embedded priceHistory entries into price_observations',
+
+  async up(context) {
+    const products = await backfill(context, 'products', 'product', (entry: any) => ({
+      observedAt: entry.recordedAt,
+      amount: entry.price?.amount,
+      currency: entry.price?.currency,
+    }));
+    const listings = await backfill(context, 'real_estate_listings', 'listing', (entry: any) => ({
+      observedAt: entry.changedAt,
+      amount: entry.amount,
+      currency: entry.currency,
+      ...(entry.usdAmount != null && { usdAmount: entry.usdAmount }),
+    }));
+    return products + listings;
+  },
+};
+
+async function backfill(
+  { mongo, dryRun }: MigrationContext,
+  name: 'products' | 'real_estate_listings',
+  kind: RecordKind,
+  toObservation: (entry: any) => Omit<PriceObservation, 'meta'>
+): Promise<number> {
+  const source = mongo.collection(name) as unknown as Collection<{
+    uniqueKey: string;
+    source: { domain: string };
+    priceHistory?: any[];
+  }>;
+  const observations = mongo.collection('price_observations');
+
+  let affected = 0;
+  let batch: PriceObservation[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+
+    // Skip entries already copied (the migration may be re-run after a failure)
+    const existing = await observations
+      .find(
+        { 'meta.uniqueKey': { $in: [...new Set(batch.map((o) => o.meta.uniqueKey))] } },
+        { projection: { _id: 0, 'meta.uniqueKey': 1, observedAt: 1 } }
+      )
+      .toArray();
+    const seen = new Set(existing.map((o) => `${o.meta.uniqueKey}|${o.observedAt.getTime()}`));
+    const fresh = batch.filter((o) => !seen.has(`${o.meta.uniqueKey}|${o.observedAt.getTime()}`));
+
+    if (fresh.length > 0 && !dryRun) {
+      await observations.insertMany(fresh, { ordered: false });
+    }
+    affected += fresh.length;
+    batch = [];
+  };
+
+  const cursor = source.find(
+    { 'priceHistory.0': { $exists: true } },
+    { projection: { _id: 0, uniqueKey: 1, 'source.domain': 1, priceHistory: 1 } }
+  );
+  for await (const doc of cursor) {
+    for (const entry of doc.priceHistory || []) {
+      const observation = toObservation(entry);
+      if (observation.amount == null || !observation.observedAt) continue;
+      batch.push({
+        ...observation,
+        meta: { uniqueKey: doc.uniqueKey, domain: doc.source.domain, kind },
+      });
+    }
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return affected;
+}
@@ -0,0 +1,72 @@
+import type { AnyBulkWriteOperation, Collection } from 'mongodb';
+import { FxRateService, type FxConverter } from '../services/fx-rate.service';
+import type { NormalizedPrice } from '../types';
+import type { Migration } from './migration';
+
+const BATCH_SIZE = 200;
+
+interface PricedRecord {
+  uniqueKey: string;
+  lastSeenAt: Date;
+  price: { amount: number; currency: string; usdAmount?: number; pricePerSqm?: number };
+  normalizedPrice?: NormalizedPrice;
+}
+
+/**
+ * Set normalizedPrice on products and listings stored before FX
+ * normalization, at the rate of their last observation. Import FX rates
+ * (npm run fx -- import) before applying it.
+ */
+export const migration: Migration = {
+  id: '006-backfill-normalized-prices',
+  description: 'Set FX-normalized PEN/USD prices on products and real_estate_listings',
+
+  async up({ mongo, dryRun }) {
+    const fx = await new FxRateService(mongo).converter();
+    const collections = [
+      mongo.collection('products'),
+      mongo.collection('real_estate_listings'),
+    ] as unknown as Array<Collection<PricedRecord>>;
+
+    let affected = 0;
+    for (const collection of collections) {
+      affected += await backfill(collection, fx, dryRun);
+    }
+    return affected;
+  },
+};
+
+async function backfill(
+  collection: Collection<PricedRecord>,
+  fx: FxConverter,
+  dryRun: boolean
+): Promise<number> {
+  const filter = { normalizedPrice: { $exists: false }, 'price.amount': { $gt: 0 } };
+  if (dryRun) return collection.countDocuments(filter);
+
+  let affected = 0;
+  let batch: AnyBulkWriteOperation<PricedRecord>[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await collection.bulkWrite(batch, { ordered: false });
+    affected += result.modifiedCount;
+    batch = [];
+  };
+
+  const cursor = collection.find(filter, {
+    projection: { _id: 1, uniqueKey: 1, lastSeenAt: 1, price: 1 },
+  });
+  for await (const doc of cursor) {
+    const normalizedPrice = fx.normalize(doc.price.amount, doc.price.currency, doc.lastSeenAt, {
+      knownUsd: doc.price.usdAmount,
+      pricePerSqm: doc.price.pricePerSqm,
+    });
+    batch.push({
+      updateOne: { filter: { _id: doc._id }, update: { $set: { normalizedPrice } } },
+    });
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return affected;
+}
@@ -0,0 +1,50 @@
+import type { AnyBulkWriteOperation } from 'mongodb';
+import type { StoredListing } from '../types/real-estate.types';
+import { toGeoPoint } from '../utils/geo';
+import type { Migration } from './migration';
+
+const BATCH_SIZE = 200;
+const LEGACY_INDEX = 'location.coordinates_2dsphere';
+
+/**
+ * Store listing coordinates as GeoJSON points in `geo` and drop the old
+ * 2dsphere index on `location.coordinates`, whose {lat, lng} documents it
+ * read as longitude/latitude pairs in the wrong order.
+ */
+export const migration: Migration = {
+  id: '007-backfill-listing-geo',
+  description: 'Set GeoJSON geo on real_estate_listings and drop the location.coordinates index',
+
+  async up({ mongo, dryRun }) {
+    const collection = mongo.collection('real_estate_listings');
+    const filter = { geo: { $exists: false }, 'location.coordinates': { $exists: true } };
+    const hasLegacyIndex = await collection.indexExists(LEGACY_INDEX);
+
+    if (dryRun) {
+      return (await collection.countDocuments(filter)) + (hasLegacyIndex ? 1 : 0);
+    }
+
+    let affected = 0;
+    let batch: AnyBulkWriteOperation<StoredListing>[] = [];
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await collection.bulkWrite(batch, { ordered: false });
+      affected += result.modifiedCount;
+      batch = [];
+    };
+
+    const cursor = collection.find(filter, { projection: { _id: 1, 'location.coordinates': 1 } });
+    for await (const doc of cursor) {
+      const geo = toGeoPoint(doc.location?.coordinates);
+      batch.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { geo } } } });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    if (hasLegacyIndex) {
+      await collection.dropIndex(LEGACY_INDEX);
+      affected++;
+    }
+    return affected;
+  },
+};
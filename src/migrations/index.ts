@@ -0,0 +1,24 @@
+import type { Migration } from './migration';
+import { migration as backfillListingPriceHistory } from './001-backfill-listing-price-history';
+import { migration as backfillActiveFlag } from './002-backfill-active-flag';
+import { migration as compressScrapeJobHtml } from './003-compress-scrape-job-html';
+import { migration as movePayloadsToBlobStore } from './004-move-payloads-to-blob-store';
+import { migration as backfillPriceObservations } from './005-backfill-price-observations';
+import { migration as backfillNormalizedPrices } from './006-backfill-normalized-prices';
+import { migration as backfillListingGeo } from './007-backfill-listing-geo';
+
+export type { Migration, MigrationContext } from './migration';
+
+/**
+ * Every migration, in apply order. Append new migrations here; never
+ * reorder or rename ones that may already be applied.
+ */
+export const MIGRATIONS: Migration[] = [
+  backfillListingPriceHistory,
+  backfillActiveFlag,
+  compressScrapeJobHtml,
+  movePayloadsToBlobStore,
+  backfillPriceObservations,
+  backfillNormalizedPrices,
+  backfillListingGeo,
+];
@@ -0,0 +1,21 @@
+import type { BlobStore } from '../services/blob-store.service';
+import type { MongoConnectionService } from '../services/mongo-connection.service';
+
+export interface MigrationContext {
+  mongo: MongoConnectionService;
+  blobs: BlobStore;
+  // Count what would change without writing
+  dryRun: boolean;
+}
+
+/**
+ * One schema migration. `id` sorts in apply order (NNN-short-name) and is
+ * recorded in the migrations collection once applied. `up` returns the
+ * number of documents changed (or that would change, on a dry run) and must
+ * be safe to re-run.
+ */
+export interface Migration {
+  id: string;
+  description: string;
+  up(context: MigrationContext): Promise<number>;
+}
@@ -0,0 +1,135 @@
+import { MongoConnectionService } from './services/mongo-connection.service';
+import { createBlobStore } from './services/blob-store.service';
+import { StorageService, type ResultFilter } from './services/storage.service';
+import { ProductStorageService } from './services/product-storage.service';
+import { RealEstateStorageService } from './services/real-estate-storage.service';
+import { ChangeLogService } from './services/change-log.service';
+import { ProductVersionService } from './services/product-version.service';
+import { PriceObservationService } from './services/price-observation.service';
+import { FxRateService } from './services/fx-rate.service';
+import { OutboxService } from './services/outbox.service';
+import { ExtractionFailureService } from './services/extraction-failure.service';
+import { ResultProcessorService } from './services/result-processor.service';
+import { ReprocessingService } from './services/reprocessing.service';
+import { CONFIG } from './config';
+
+/**
+ * Reprocess stored scrape_jobs through the current extraction strategies.
+ *
+ * Usage:
+ *   npm run reprocess -- [--domain urbania] [--from 2026-01-01] [--to 2026-02-01]
+ *                        [--state completed] [--job-id 123 --job-id 456] [--dry-run]
+ */
+function parseArgs(argv: string[]): { filter: ResultFilter; dryRun: boolean } {
+  const filter: ResultFilter = {};
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--domain':
+        filter.domain = next();
+        break;
+      case '--from':
+        filter.fetchedFrom = parseDate(next());
+        break;
+      case '--to':
+        filter.fetchedTo = parseDate(next());
+        break;
+      case '--state': {
+        const state = next();
+        if (state !== 'completed' && state !== 'failed' && state !== 'unknown') {
+          throw new Error(`Invalid state: ${state}`);
+        }
+        filter.state = state;
+        break;
+      }
+      case '--job-id':
+        filter.jobIds = [...(filter.jobIds || []), next()];
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { filter, dryRun };
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+  return date;
+}
+
+async function main() {
+  const { filter, dryRun } = parseArgs(process.argv.slice(2));
+
+  const mongo = new MongoConnectionService();
+  const storageService = new StorageService(mongo, createBlobStore(mongo));
+  const changeLog = new ChangeLogService(mongo);
+  const productVersions = new ProductVersionService(mongo);
+  const priceObservations = new PriceObservationService(mongo);
+  const fxRates = new FxRateService(mongo);
+  // Events recorded here are published by the running service
+  const outbox = CONFIG.events.enabled ? new OutboxService(mongo) : undefined;
+  const productStorage = new ProductStorageService(
+    mongo,
+    changeLog,
+    productVersions,
+    priceObservations,
+    fxRates,
+    undefined,
+    outbox
+  );
+  const realEstateStorage = new RealEstateStorageService(
+    mongo,
+    changeLog,
+    priceObservations,
+    fxRates,
+    undefined,
+    outbox
+  );
+  const extractionFailures = new ExtractionFailureService(mongo);
+  const reprocessing = new ReprocessingService(
+    storageService,
+    new ResultProcessorService(productStorage, realEstateStorage, extractionFailures)
+  );
+
+  try {
+    await mongo.connect();
+
+    const report = await reprocessing.reprocess(filter, { dryRun });
+
+    console.log('\n=== Reprocessing Report ===');
+    console.log(JSON.stringify({ ...report, outcomes: undefined }, null, 2));
+
+    if (dryRun) {
+      console.log('\nWould change:');
+      for (const outcome of report.outcomes) {
+        for (const item of outcome.preview || []) {
+          if (item.action === 'insert') {
+            console.log(`  + ${item.uniqueKey} (job ${outcome.jobId})`);
+          } else if (item.changedFields.length > 0) {
+            console.log(`  ~ ${item.uniqueKey}: ${item.changedFields.join(', ')} (job ${outcome.jobId})`);
+          }
+        }
+      }
+    }
+  } finally {
+    await mongo.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Reprocessing failed:', error);
+  process.exit(1);
+});
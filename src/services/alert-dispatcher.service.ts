@@ -0,0 +1,64 @@
+import { CONFIG } from '../config';
+
+/** Alerts stored with a pending-delivery flag, delivered in batches */
+export interface PendingAlertSource {
+  // Deliver up to `limit` pending alerts, oldest first; returns how many
+  deliverPending(limit: number): Promise<number>;
+}
+
+/**
+ * AlertDispatcherService
+ * Delivers stored alerts to their notifiers on its own timer, so a slow or
+ * unreachable webhook never holds up the upserts that raised them. An alert
+ * is cleared after its notifiers ran (successfully or not; `deliveries`
+ * records the outcome), so a crash in between delivers it again.
+ */
+export class AlertDispatcherService {
+  private sources: PendingAlertSource[];
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<number> | null = null;
+
+  constructor(sources: PendingAlertSource[]) {
+    this.sources = sources;
+  }
+
+  start(): void {
+    this.timer = setInterval(() => {
+      this.dispatchPending().catch((error) => console.error('Alert delivery failed:', error));
+    }, CONFIG.alerts.deliveryIntervalMs);
+  }
+
+  /**
+   * Deliver every pending alert. Calls made while a run is in progress
+   * share it. Returns the number delivered.
+   */
+  dispatchPending(): Promise<number> {
+    if (!this.dispatching) {
+      this.dispatching = this.drain().finally(() => {
+        this.dispatching = null;
+      });
+    }
+    return this.dispatching;
+  }
+
+  private async drain(): Promise<number> {
+    const batchSize = CONFIG.alerts.deliveryBatchSize;
+    let delivered = 0;
+    for (const source of this.sources) {
+      for (;;) {
+        const count = await source.deliverPending(batchSize);
+        delivered += count;
+        if (count < batchSize) break;
+      }
+    }
+    return delivered;
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.dispatching?.catch(() => undefined);
+  }
+}
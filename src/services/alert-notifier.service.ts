@@ -0,0 +1,112 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Collection, Filter, ObjectId, UpdateFilter } from 'mongodb';
+import { CONFIG } from '../config';
+import type { ListingAlert } from '../types/real-estate.types';
+import type { ProductAlert } from '../types/product.types';
+
+/** Saved-search alerts carry `searchId`, product watch alerts `ruleId` */
+export type Alert = ListingAlert | ProductAlert;
+
+/**
+ * Delivers alerts somewhere. `name` is what saved searches and watch rules
+ * refer to in their `notifiers` list. A rejected notify() marks the batch
+ * as failed for this notifier; it is not retried.
+ */
+export interface AlertNotifier {
+  name: string;
+  notify(alerts: Alert[]): Promise<void>;
+}
+
+/**
+ * WebhookNotifier
+ * POSTs `{ alerts: [...] }` as JSON; any non-2xx response is a failure.
+ */
+export class WebhookNotifier implements AlertNotifier {
+  name = 'webhook';
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number = 10000) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async notify(alerts: Alert[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alerts }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * FileNotifier
+ * Appends one JSON line per alert to an NDJSON file.
+ */
+export class FileNotifier implements AlertNotifier {
+  name = 'file';
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async notify(alerts: Alert[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, alerts.map((alert) => JSON.stringify(alert) + '\n').join(''));
+  }
+}
+
+/**
+ * Notifiers enabled by ALERT_WEBHOOK_URL / ALERT_FILE
+ */
+export function createNotifiers(
+  config: { webhookUrl: string; webhookTimeoutMs: number; file: string } = CONFIG.alerts
+): AlertNotifier[] {
+  const notifiers: AlertNotifier[] = [];
+  if (config.webhookUrl) {
+    notifiers.push(new WebhookNotifier(config.webhookUrl, config.webhookTimeoutMs));
+  }
+  if (config.file) notifiers.push(new FileNotifier(config.file));
+  return notifiers;
+}
+
+/**
+ * Hand newly stored alerts to each notifier they subscribe to (all of them
+ * when `subscribedTo` returns undefined) and record the outcome under
+ * `deliveries.<notifier>`.
+ */
+export async function deliverAlerts<T extends Alert>(
+  notifiers: AlertNotifier[],
+  collection: Collection<T>,
+  created: Array<{ _id: ObjectId; alert: T }>,
+  subscribedTo: (alert: T) => string[] | undefined
+): Promise<void> {
+  for (const notifier of notifiers) {
+    const batch = created.filter(({ alert }) => {
+      const names = subscribedTo(alert);
+      return !names || names.includes(notifier.name);
+    });
+    if (batch.length === 0) continue;
+
+    let outcome: { deliveredAt?: Date; error?: string };
+    try {
+      await notifier.notify(batch.map(({ alert }) => alert));
+      outcome = { deliveredAt: new Date() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to deliver ${batch.length} alert(s) via ${notifier.name}:`, message);
+      outcome = { error: message };
+    }
+    await collection.updateMany(
+      { _id: { $in: batch.map(({ _id }) => _id) } } as Filter<T>,
+      { $set: { [`deliveries.${notifier.name}`]: outcome } } as UpdateFilter<T>
+    );
+  }
+}
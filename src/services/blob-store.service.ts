@@ -0,0 +1,145 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readFile, rename, unlink, writeFile, access } from 'fs/promises';
+import { dirname, join } from 'path';
+import { gzipSync, gunzipSync } from 'zlib';
+import { GridFSBucket } from 'mongodb';
+import { CONFIG } from '../config';
+import { MongoConnectionService } from './mongo-connection.service';
+
+/**
+ * Content-addressed store for raw fetch payloads (html, screenshots).
+ * Blobs are keyed by the sha256 of their content and kept gzip-compressed,
+ * so byte-identical pages across crawls are stored once.
+ */
+export interface BlobStore {
+  /** Store content (if not already stored) and return its hash. */
+  put(content: Buffer): Promise<string>;
+  get(hash: string): Promise<Buffer | null>;
+  delete(hash: string): Promise<void>;
+}
+
+export function contentHash(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * GridFsBlobStore
+ * Blobs in the `blobs` GridFS bucket, one file per hash (filename = hash).
+ */
+export class GridFsBlobStore implements BlobStore {
+  private bucket: GridFSBucket;
+
+  constructor(mongo: MongoConnectionService) {
+    this.bucket = mongo.bucket('blobs');
+  }
+
+  async put(content: Buffer): Promise<string> {
+    const hash = contentHash(content);
+    if (await this.bucket.find({ filename: hash }).limit(1).hasNext()) return hash;
+
+    await new Promise<void>((resolve, reject) => {
+      this.bucket
+        .openUploadStream(hash)
+        .on('finish', () => resolve())
+        .on('error', reject)
+        .end(gzipSync(content));
+    });
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    const file = await this.bucket.find({ filename: hash }).limit(1).next();
+    if (!file) return null;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.bucket.openDownloadStream(file._id)) {
+      chunks.push(chunk as Buffer);
+    }
+    return gunzipSync(Buffer.concat(chunks));
+  }
+
+  async delete(hash: string): Promise<void> {
+    for await (const file of this.bucket.find({ filename: hash })) {
+      await this.bucket.delete(file._id);
+    }
+  }
+}
+
+/**
+ * FileSystemBlobStore
+ * Blobs as `<root>/<first 2 hash chars>/<hash>.gz` files.
+ */
+export class FileSystemBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  async put(content: Buffer): Promise<string> {
+    const hash = contentHash(content);
+    const path = this.pathFor(hash);
+    if (await this.exists(path)) return hash;
+
+    // Write then rename, so a crash never leaves a truncated blob behind.
+    // Each put has its own temp file: concurrent puts of a hash both land.
+    await mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+    await writeFile(tmpPath, gzipSync(content));
+    try {
+      await rename(tmpPath, path);
+    } catch (error) {
+      await unlink(tmpPath).catch(() => undefined);
+      // Same content, so a blob stored meanwhile is as good as ours
+      if (!(await this.exists(path))) throw error;
+    }
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    try {
+      return gunzipSync(await readFile(this.pathFor(hash)));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(hash: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(hash));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private pathFor(hash: string): string {
+    return join(this.root, hash.slice(0, 2), `${hash}.gz`);
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Blob store selected by BLOB_STORE ('gridfs' or 'filesystem')
+ */
+export function createBlobStore(
+  mongo: MongoConnectionService,
+  config: { driver: string; path: string } = CONFIG.blobStore
+): BlobStore {
+  switch (config.driver) {
+    case 'gridfs':
+      return new GridFsBlobStore(mongo);
+    case 'filesystem':
+      return new FileSystemBlobStore(config.path);
+    default:
+      throw new Error(`Unknown blob store: ${config.driver} (expected gridfs or filesystem)`);
+  }
+}
@@ -0,0 +1,189 @@
+import { ChangeStream, Collection, Document } from 'mongodb';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { StoredProduct } from '../types/product.types';
+import type { StoredListing } from '../types/real-estate.types';
+
+export type FeedCollection = 'products' | 'listings';
+
+/** `delist` is an update that set active to false (the stale sweep) */
+export type FeedChangeKind = 'insert' | 'update' | 'delist';
+
+export interface FeedFilter {
+  domain?: string;
+  // Listings only
+  district?: string;
+  listingType?: string;
+  // All kinds when omitted
+  kinds?: FeedChangeKind[];
+}
+
+export interface FeedEvent {
+  // Resume token; pass back as `resumeAfter` to continue after this event
+  token: string;
+  collection: FeedCollection;
+  kind: FeedChangeKind;
+  // null when the record was deleted before its update could be looked up
+  uniqueKey: string | null;
+  at: Date;
+  // Top-level fields written by an update
+  changedFields?: string[];
+  // The record after the change, without rawData and priceHistory
+  record: Record<string, unknown> | null;
+}
+
+/** An open feed; iterate `events` and close() when the client goes away. */
+export interface ChangeFeed {
+  events: AsyncIterable<FeedEvent>;
+  // Latest resume token, advanced even while nothing matches
+  resumeToken(): string | null;
+  close(): Promise<void>;
+}
+
+const RESUME_TOKEN_PATTERN = /^[0-9A-Fa-f]+$/;
+
+/**
+ * ChangeFeedService
+ * Live inserts, updates and delistings on products and
+ * real_estate_listings, read from MongoDB change streams (which need a
+ * replica set). Every event carries its resume token, so a client that
+ * reconnects with the last token it saw misses nothing still in the oplog.
+ */
+export class ChangeFeedService {
+  private collections: Record<
+    FeedCollection,
+    Collection<StoredProduct> | Collection<StoredListing>
+  >;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collections = {
+      products: mongo.collection('products'),
+      listings: mongo.collection('real_estate_listings'),
+    };
+  }
+
+  static isResumeToken(token: string): boolean {
+    return RESUME_TOKEN_PATTERN.test(token);
+  }
+
+  /**
+   * Open a feed. The first batch is read before returning, so a bad or
+   * expired resume token (or a standalone server) fails here rather than
+   * mid-stream.
+   */
+  async open(
+    collection: FeedCollection,
+    filter: FeedFilter = {},
+    resumeAfter?: string
+  ): Promise<ChangeFeed> {
+    const stream: ChangeStream<Document> = this.collections[collection].watch(
+      feedPipeline(collection, filter),
+      {
+        fullDocument: 'updateLookup',
+        ...(resumeAfter && { resumeAfter: { _data: resumeAfter } }),
+      }
+    );
+
+    let first: Document | null;
+    try {
+      first = await stream.tryNext();
+    } catch (error) {
+      await stream.close();
+      throw error;
+    }
+
+    async function* events(): AsyncGenerator<FeedEvent> {
+      if (first) yield toFeedEvent(collection, first);
+      for await (const change of stream) yield toFeedEvent(collection, change);
+    }
+
+    return {
+      events: events(),
+      resumeToken: () => (stream.resumeToken as { _data?: string } | null)?._data ?? null,
+      close: () => stream.close(),
+    };
+  }
+}
+
+// Fields the storage services keep until a record's events are in the outbox
+const OUTBOX_FIELDS = '^(pendingEvents|delistedEventPending)(\\.|$)';
+
+function feedPipeline(collection: FeedCollection, filter: FeedFilter): Document[] {
+  const match: Document = { operationType: { $in: ['insert', 'update', 'replace'] } };
+  if (filter.domain) match['fullDocument.source.domain'] = filter.domain;
+  if (collection === 'listings') {
+    if (filter.district) match['fullDocument.location.district'] = filter.district;
+    if (filter.listingType) match['fullDocument.listingType'] = filter.listingType;
+  }
+
+  const kinds = filter.kinds?.length ? filter.kinds : null;
+  const delisted = { $eq: ['$updateDescription.updatedFields.active', false] };
+  const observed = (fields: Document) => ({
+    $filter: {
+      input: fields,
+      cond: { $not: { $regexMatch: { input: '$$this', regex: OUTBOX_FIELDS } } },
+    },
+  });
+  const updatedFields = {
+    $map: { input: { $objectToArray: '$updateDescription.updatedFields' }, in: '$$this.k' },
+  };
+  const removedFields = { $ifNull: ['$updateDescription.removedFields', []] };
+
+  return [
+    { $match: match },
+    {
+      $addFields: {
+        delisted,
+        changedFields: observed(updatedFields),
+        removedFields: observed(removedFields),
+      },
+    },
+    // Moving events to the outbox is not a change of the record
+    {
+      $match: {
+        $expr: {
+          $or: [
+            { $ne: ['$operationType', 'update'] },
+            { $gt: [{ $size: { $concatArrays: ['$changedFields', '$removedFields'] } }, 0] },
+          ],
+        },
+      },
+    },
+    ...(kinds ? [{ $match: kindFilter(kinds) }] : []),
+    // Update values can be whole arrays (priceHistory); the field names are enough
+    {
+      $project: {
+        updateDescription: 0,
+        removedFields: 0,
+        'fullDocument.rawData': 0,
+        'fullDocument.priceHistory': 0,
+        'fullDocument.pendingEvents': 0,
+        'fullDocument.delistedEventPending': 0,
+      },
+    },
+  ];
+}
+
+function kindFilter(kinds: FeedChangeKind[]): Document {
+  const branches: Document[] = [];
+  if (kinds.includes('insert')) branches.push({ operationType: 'insert' });
+  if (kinds.includes('update')) {
+    branches.push({ operationType: { $in: ['update', 'replace'] }, delisted: false });
+  }
+  if (kinds.includes('delist')) branches.push({ operationType: 'update', delisted: true });
+  return { $or: branches };
+}
+
+function toFeedEvent(collection: FeedCollection, change: Document): FeedEvent {
+  const kind: FeedChangeKind =
+    change.operationType === 'insert' ? 'insert' : change.delisted ? 'delist' : 'update';
+  const { _id, ...record } = change.fullDocument || {};
+  return {
+    token: change._id._data,
+    collection,
+    kind,
+    uniqueKey: record.uniqueKey ?? null,
+    at: change.wallTime ?? new Date(),
+    ...(kind !== 'insert' && change.changedFields && { changedFields: change.changedFields }),
+    record: change.fullDocument ? record : null,
+  };
+}
@@ -0,0 +1,122 @@
+import { Collection, Filter } from 'mongodb';
+import { CursorPage, fetchPage, SortSpec } from '../utils/cursor';
+import { diffFields } from '../utils/diff';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { ChangeLogEntry, RecordKind } from '../types';
+
+// Bookkeeping fields maintained by the storage services, not observed data
+const IGNORED_FIELDS = [
+  '_id',
+  'uniqueKey',
+  'source',
+  'rawData',
+  'firstSeenAt',
+  'lastSeenAt',
+  'lastUpdatedAt',
+  'priceHistory',
+  'normalizedPrice',
+  'version',
+  'active',
+  'delistedAt',
+  'pendingEvents',
+  'delistedEventPending',
+];
+
+const TIMELINE_SORT: SortSpec = { changedAt: -1, _id: -1 };
+
+export interface TimelineQuery {
+  field?: string; // exact path, or a prefix such as "details"
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * ChangeLogService
+ * Keeps a per-field before/after history for products and listings, so
+ * values overwritten by an upsert (bedrooms, area, description, images, ...)
+ * are not lost.
+ */
+export class ChangeLogService {
+  private collection: Collection<ChangeLogEntry>;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collection = mongo.collection('change_log');
+  }
+
+  /**
+   * Diff an incoming record against its stored version. Returns null when
+   * nothing observable changed.
+   */
+  diff(
+    kind: RecordKind,
+    uniqueKey: string,
+    existing: Record<string, any>,
+    incoming: { source: { domain: string; jobId?: string } } & Record<string, any>,
+    changedAt: Date
+  ): ChangeLogEntry | null {
+    const changes = diffFields(existing, incoming, IGNORED_FIELDS);
+    if (changes.length === 0) return null;
+
+    return {
+      uniqueKey,
+      kind,
+      domain: incoming.source.domain,
+      ...(incoming.source.jobId && { jobId: incoming.source.jobId }),
+      changedAt,
+      changes,
+    };
+  }
+
+  async record(entries: ChangeLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.collection.insertMany(entries, { ordered: false });
+  }
+
+  /**
+   * Change timeline of one product/listing, most recent first, one page at
+   * a time. With `field` only matching changes are returned (a prefix such
+   * as "details" matches every details.* field).
+   */
+  async getTimeline(
+    uniqueKey: string,
+    query: TimelineQuery = {}
+  ): Promise<CursorPage<ChangeLogEntry>> {
+    const filter: Filter<ChangeLogEntry> = { uniqueKey };
+    if (query.from || query.to) {
+      filter.changedAt = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to }),
+      };
+    }
+
+    const matchesField = (field: string) =>
+      !query.field || field === query.field || field.startsWith(`${query.field}.`);
+    if (query.field) {
+      filter['changes.field'] = {
+        $regex: `^${query.field.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\.|$)`,
+      };
+    }
+
+    const page = await fetchPage(
+      TIMELINE_SORT,
+      { cursor: query.cursor, limit: query.limit || 100 },
+      (after, limit) =>
+        this.collection
+          .find(after ? ({ $and: [filter, after] } as Filter<ChangeLogEntry>) : filter)
+          .sort(TIMELINE_SORT)
+          .limit(limit)
+          .toArray()
+    );
+
+    return {
+      ...page,
+      items: page.items.map((entry) => ({
+        ...entry,
+        changes: entry.changes.filter((change) => matchesField(change.field)),
+      })),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { Queue } from 'bullmq';
+import { CONFIG } from '../config';
+import { OutboxService } from './outbox.service';
+
+/** Records that keep events written with them until those are in the outbox */
+export interface PendingEventSource {
+  // Move events of up to `limit` records to the outbox; returns how many records
+  flushPendingEvents(limit: number): Promise<number>;
+}
+
+/**
+ * EventPublisherService
+ * Moves event_outbox entries onto the outbound BullMQ events queue, oldest
+ * first; a batch that fails stays pending and is retried on the next tick.
+ * Each tick first moves events still left on their records (`sources`).
+ * The job id is the event id, so an entry published again (crash between
+ * enqueue and markPublished) is not enqueued twice while its job is still
+ * in Redis. Consumers should still dedupe on `id`: delivery is at least once.
+ */
+export class EventPublisherService {
+  private queue: Queue;
+  private outbox: OutboxService;
+  private sources: PendingEventSource[];
+  private timer: NodeJS.Timeout | null = null;
+  private publishing: Promise<number> | null = null;
+
+  constructor(outbox: OutboxService, sources: PendingEventSource[] = []) {
+    this.outbox = outbox;
+    this.sources = sources;
+    this.queue = new Queue(CONFIG.events.queueName, {
+      connection: {
+        host: CONFIG.redis.host,
+        port: CONFIG.redis.port,
+      },
+      defaultJobOptions: {
+        removeOnComplete: { age: CONFIG.events.keepJobsHours * 60 * 60 },
+        removeOnFail: { age: CONFIG.events.keepJobsHours * 60 * 60 },
+      },
+    });
+  }
+
+  start(): void {
+    console.log(`Event publisher started for: ${CONFIG.events.queueName}`);
+    this.timer = setInterval(() => {
+      this.publishPending().catch((error) => console.error('Event publishing failed:', error));
+    }, CONFIG.events.publishIntervalMs);
+  }
+
+  /**
+   * Publish pending entries until none are left or the queue fails. Calls
+   * made while a run is in progress share it. Returns the number published.
+   */
+  publishPending(): Promise<number> {
+    if (!this.publishing) {
+      this.publishing = this.drain().finally(() => {
+        this.publishing = null;
+      });
+    }
+    return this.publishing;
+  }
+
+  private async drain(): Promise<number> {
+    const batchSize = CONFIG.events.publishBatchSize;
+    let published = 0;
+    await this.flushSources(batchSize);
+
+    for (;;) {
+      const entries = await this.outbox.pending(batchSize);
+      if (entries.length === 0) break;
+      const ids = entries.map((entry) => entry._id);
+
+      try {
+        await this.queue.addBulk(
+          entries.map(({ event }) => ({ name: event.type, data: event, opts: { jobId: event.id } }))
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to publish ${entries.length} event(s), will retry:`, message);
+        await this.outbox.markFailed(ids, message);
+        break;
+      }
+
+      await this.outbox.markPublished(ids);
+      published += entries.length;
+      if (entries.length < batchSize) break;
+    }
+
+    if (published > 0) console.log(`Published ${published} domain event(s)`);
+    return published;
+  }
+
+  /** Move events left on records to the outbox; a failing source is retried next tick. */
+  private async flushSources(batchSize: number): Promise<void> {
+    for (const source of this.sources) {
+      try {
+        while ((await source.flushPendingEvents(batchSize)) >= batchSize);
+      } catch (error) {
+        console.error('Failed to move pending events to the outbox, will retry:', error);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.publishing?.catch(() => undefined);
+    await this.queue.close();
+  }
+}
@@ -0,0 +1,145 @@
+import type { Writable } from 'stream';
+import {
+  EXPORT_COLUMNS,
+  PRICE_HISTORY_COLUMNS,
+  type ExportColumn,
+  type ExportKind,
+} from '../config/export-columns';
+import { createRowWriter, type ExportFormat, type ExportRow } from '../utils/export-writers';
+import { valueAt } from '../utils/path';
+import { ProductStorageService, type ProductSearchQuery } from './product-storage.service';
+import { RealEstateStorageService } from './real-estate-storage.service';
+import type { ListingSearchQuery } from '../types/real-estate.types';
+
+export type ExportRequest =
+  | { kind: 'products'; query?: ProductSearchQuery }
+  | { kind: 'listings'; query?: ListingSearchQuery };
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Column names from EXPORT_COLUMNS; all of them when omitted
+  columns?: string[];
+  // One row per priceHistory entry, with the PRICE_HISTORY_COLUMNS appended
+  priceHistory?: boolean;
+  // Rows per write (and per Parquet row group)
+  batchSize?: number;
+}
+
+export interface ExportReport {
+  records: number;
+  rows: number;
+  // Latest lastUpdatedAt exported; pass as `updatedSince` for the next
+  // incremental export
+  lastUpdatedAt: Date | null;
+}
+
+/**
+ * ExportService
+ * Streams products or listings matching a search to CSV, NDJSON or Parquet.
+ * Records are read oldest update first, so an interrupted incremental export
+ * can resume from the last lastUpdatedAt it reported.
+ */
+export class ExportService {
+  private products: ProductStorageService;
+  private listings: RealEstateStorageService;
+
+  constructor(products: ProductStorageService, listings: RealEstateStorageService) {
+    this.products = products;
+    this.listings = listings;
+  }
+
+  /** Resolve the selected columns, failing on unknown names. */
+  columnsFor(
+    kind: ExportKind,
+    options: Pick<ExportOptions, 'columns' | 'priceHistory'>
+  ): ExportColumn[] {
+    const available = EXPORT_COLUMNS[kind];
+    let columns = available;
+    if (options.columns?.length) {
+      const unknown = options.columns.filter((name) => !available.some((c) => c.name === name));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown ${kind} export column(s): ${unknown.join(', ')} ` +
+            `(available: ${available.map((c) => c.name).join(', ')})`
+        );
+      }
+      columns = options.columns.map((name) => available.find((c) => c.name === name)!);
+    }
+    return options.priceHistory ? [...columns, ...PRICE_HISTORY_COLUMNS[kind]] : columns;
+  }
+
+  async export(
+    request: ExportRequest,
+    options: ExportOptions,
+    out: Writable
+  ): Promise<ExportReport> {
+    const columns = this.columnsFor(request.kind, options);
+    const historyColumns = options.priceHistory ? PRICE_HISTORY_COLUMNS[request.kind] : [];
+    const baseColumns = columns.slice(0, columns.length - historyColumns.length);
+    const batchSize = options.batchSize || 5000;
+
+    const records: AsyncIterable<Record<string, any>> =
+      request.kind === 'products'
+        ? this.products.streamProducts(request.query || {})
+        : this.listings.streamListings(request.query || {});
+
+    const writer = createRowWriter(options.format, columns, out);
+    const report: ExportReport = { records: 0, rows: 0, lastUpdatedAt: null };
+    let batch: ExportRow[] = [];
+
+    for await (const record of records) {
+      const row: ExportRow = {};
+      for (const column of baseColumns) {
+        row[column.name] = toCell(valueAt(record, column.name), column);
+      }
+
+      const history: Record<string, any>[] = options.priceHistory ? record.priceHistory || [] : [];
+      if (history.length === 0) {
+        batch.push(row);
+      } else {
+        for (const entry of history) {
+          const historyRow: ExportRow = { ...row };
+          for (const column of historyColumns) {
+            historyRow[column.name] = toCell(valueAt(entry, column.path!), column);
+          }
+          batch.push(historyRow);
+        }
+      }
+
+      report.records++;
+      report.lastUpdatedAt = record.lastUpdatedAt || report.lastUpdatedAt;
+      if (batch.length >= batchSize) {
+        report.rows += batch.length;
+        await writer.write(batch);
+        batch = [];
+      }
+    }
+
+    report.rows += batch.length;
+    await writer.write(batch);
+    await writer.finish();
+    return report;
+  }
+}
+
+/** Coerce a stored value to its column type; unusable values become null */
+function toCell(value: unknown, column: ExportColumn): unknown {
+  if (value === null || value === undefined) return null;
+  switch (column.type) {
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+      const number = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : null;
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case 'json':
+      return value;
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,163 @@
+import { Collection, Filter } from 'mongodb';
+import { SITES } from '../config/sites';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { ExtractionFailure, ExtractionFailureCause, ProcessingOutcome } from '../types';
+
+export interface FailureFilter {
+  status?: ExtractionFailure['status'];
+  cause?: ExtractionFailureCause;
+  domain?: string;
+  jobIds?: string[];
+}
+
+export interface FailureCauseSummary {
+  cause: ExtractionFailureCause;
+  count: number;
+  domains: Record<string, number>;
+  lastFailedAt: Date;
+}
+
+/**
+ * ExtractionFailureService
+ * Dead-letter store for fetch results that produced no stored records.
+ * Jobs are removed from Redis once processed, so this collection (plus the
+ * scrape_jobs doc it points to) is the only evidence left to debug and retry.
+ */
+export class ExtractionFailureService {
+  private collection: Collection<ExtractionFailure>;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collection = mongo.collection('extraction_failures');
+  }
+
+  /**
+   * Classify why an outcome did not store its records, or null if it did.
+   */
+  classify(outcome: ProcessingOutcome): ExtractionFailureCause | null {
+    if (outcome.exception) return 'exception';
+    if (outcome.skippedReason) return 'no_data';
+    if (outcome.extracted === 0) {
+      if (outcome.errors?.some((e) => e.startsWith('Extraction error'))) return 'extraction_error';
+      if (!outcome.strategyUsed) return 'no_strategy';
+      return 'no_results';
+    }
+    if (outcome.stats && outcome.stats.errors > 0) return 'upsert_errors';
+    return null;
+  }
+
+  /**
+   * Record a failed outcome, or resolve the job's open failure if it
+   * succeeded. Returns the recorded cause (null on success).
+   */
+  async recordOutcome(outcome: ProcessingOutcome): Promise<ExtractionFailureCause | null> {
+    const cause = this.classify(outcome);
+
+    if (!cause) {
+      await this.collection.updateOne(
+        { jobId: outcome.jobId, status: 'open' },
+        { $set: { status: 'resolved', resolvedAt: new Date() } }
+      );
+      return null;
+    }
+
+    const now = new Date();
+    const errors = [
+      ...(outcome.errors || []),
+      ...(outcome.skippedReason ? [outcome.skippedReason] : []),
+      ...(outcome.exception ? [outcome.exception] : []),
+    ];
+
+    await this.collection.updateOne(
+      { jobId: outcome.jobId },
+      {
+        $set: {
+          url: outcome.url,
+          domain: SITES.domainFor(outcome.url),
+          vertical: outcome.vertical,
+          cause,
+          strategyUsed: outcome.strategyUsed,
+          errors,
+          itemErrors: outcome.stats?.failures || [],
+          scrapeJob: { collection: 'scrape_jobs', jobId: outcome.jobId },
+          status: 'open',
+          lastFailedAt: now,
+        },
+        $unset: { resolvedAt: '' },
+        $inc: { attempts: 1 },
+        $setOnInsert: { firstFailedAt: now },
+      },
+      { upsert: true }
+    );
+
+    console.log(`Recorded extraction failure for job ${outcome.jobId} (cause: ${cause})`);
+    return cause;
+  }
+
+  /**
+   * List failures, most recent first
+   */
+  async listFailures(
+    filter: FailureFilter = {},
+    page: { limit?: number; skip?: number } = {}
+  ): Promise<ExtractionFailure[]> {
+    return this.collection
+      .find(this.buildQuery(filter))
+      .sort({ lastFailedAt: -1 })
+      .skip(page.skip || 0)
+      .limit(page.limit || 50)
+      .toArray();
+  }
+
+  /**
+   * Count failures per cause, with a per-domain breakdown
+   */
+  async groupByCause(filter: FailureFilter = { status: 'open' }): Promise<FailureCauseSummary[]> {
+    const rows = await this.collection
+      .aggregate([
+        { $match: this.buildQuery(filter) },
+        {
+          $group: {
+            _id: { cause: '$cause', domain: '$domain' },
+            count: { $sum: 1 },
+            lastFailedAt: { $max: '$lastFailedAt' },
+          },
+        },
+      ])
+      .toArray();
+
+    const byCause = new Map<ExtractionFailureCause, FailureCauseSummary>();
+    rows.forEach((row: any) => {
+      const summary: FailureCauseSummary = byCause.get(row._id.cause) || {
+        cause: row._id.cause,
+        count: 0,
+        domains: {},
+        lastFailedAt: row.lastFailedAt,
+      };
+      summary.count += row.count;
+      summary.domains[row._id.domain] = row.count;
+      if (row.lastFailedAt > summary.lastFailedAt) summary.lastFailedAt = row.lastFailedAt;
+      byCause.set(row._id.cause, summary);
+    });
+
+    return [...byCause.values()].sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Job ids of failures matching a filter (used to select retries)
+   */
+  async findJobIds(filter: FailureFilter = { status: 'open' }): Promise<string[]> {
+    const docs = await this.collection
+      .find(this.buildQuery(filter), { projection: { jobId: 1 } })
+      .toArray();
+    return docs.map((doc) => doc.jobId);
+  }
+
+  private buildQuery(filter: FailureFilter): Filter<ExtractionFailure> {
+    const query: Filter<ExtractionFailure> = {};
+    if (filter.status) query.status = filter.status;
+    if (filter.cause) query.cause = filter.cause;
+    if (filter.domain) query.domain = filter.domain;
+    if (filter.jobIds?.length) query.jobId = { $in: filter.jobIds };
+    return query;
+  }
+}
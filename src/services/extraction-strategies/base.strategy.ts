@@ -1,3 +1,4 @@
+import { SITES } from '../../config/sites';
 import type { Product, ProductPrice, ProductRating } from '../../types/product.types';
 
 /**
@@ -6,28 +7,17 @@ import type { Product, ProductPrice, ProductRating } from '../../types/product.t
  */
 export abstract class BaseExtractionStrategy {
   /**
-   * Extract domain from URL
+   * Domain extracted records carry in source.domain (from the site registry)
    */
   protected extractDomain(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.replace(/^www\./, '');
-      const parts = hostname.split('.');
-      
-      const commonSLDs = ['com', 'co', 'org', 'net', 'gov', 'edu'];
-      
-      if (parts.length >= 3) {
-        const secondToLast = parts[parts.length - 2];
-        if (commonSLDs.includes(secondToLast)) {
-          return parts[parts.length - 3];
-        }
-        return parts[parts.length - 2];
-      }
-      
-      return parts[0];
-    } catch {
-      return 'unknown';
-    }
+    return SITES.sourceDomainFor(url);
+  }
+
+  /**
+   * Currency of the site a URL belongs to, if it is registered
+   */
+  protected siteCurrency(url: string): string | undefined {
+    return SITES.resolve(url)?.currency;
   }
 
   /**
@@ -42,7 +32,7 @@ export abstract class BaseExtractionStrategy {
   /**
    * Extract currency code from price string or symbol
    */
-  protected extractCurrency(str: string): string {
+  protected extractCurrency(str: string, fallback: string = 'USD'): string {
     const currencyMap: Record<string, string> = {
       'S/': 'PEN',
       '$': 'USD',
@@ -59,7 +49,7 @@ export abstract class BaseExtractionStrategy {
       if (str.includes(symbol)) return code;
     }
 
-    return 'USD';
+    return fallback;
   }
 
   /**
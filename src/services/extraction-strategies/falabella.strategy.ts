@@ -1,4 +1,5 @@
 import type { ExtractionStrategy, Product, ProductPrice } from '../../types/product.types';
+import { SITES } from '../../config/sites';
 import { BaseExtractionStrategy } from './base.strategy';
 
 /**
@@ -9,7 +10,7 @@ export class FalabellaStrategy extends BaseExtractionStrategy implements Extract
   readonly name = 'Falabella';
 
   canHandle(data: any, url: string): boolean {
-    const isFalabellaUrl = url.includes('falabella.com');
+    const isFalabellaUrl = SITES.resolve(url)?.strategies.includes(this.name) ?? false;
     const hasNextJsStructure = data?.props?.pageProps?.results !== undefined;
     const hasFalabellaProducts =
       Array.isArray(data) &&
@@ -45,7 +46,7 @@ export class FalabellaStrategy extends BaseExtractionStrategy implements Extract
 
   private normalizeProduct(item: any, domain: string, sourceUrl: string, jobId?: string): Product {
     const productId = item.productId || item.skuId || '';
-    const price = this.extractPrice(item);
+    const price = this.extractPrice(item, sourceUrl);
     const rating = this.buildRating(item.rating, item.totalReviews || item.reviews);
 
     const product: Product = {
@@ -89,7 +90,7 @@ export class FalabellaStrategy extends BaseExtractionStrategy implements Extract
     return product;
   }
 
-  private extractPrice(item: any): ProductPrice {
+  private extractPrice(item: any, sourceUrl: string): ProductPrice {
     if (item.prices && Array.isArray(item.prices) && item.prices.length > 0) {
       const internetPrice = item.prices.find((p: any) => p.type === 'internetPrice') || item.prices[0];
       
@@ -105,7 +106,7 @@ export class FalabellaStrategy extends BaseExtractionStrategy implements Extract
     const priceStr = String(item.price || '0');
     return {
       amount: this.parsePrice(priceStr),
-      currency: this.extractCurrency(priceStr),
+      currency: this.extractCurrency(priceStr, this.siteCurrency(sourceUrl)),
     };
   }
 
@@ -8,7 +8,7 @@ import { BaseExtractionStrategy } from './base.strategy';
 export class GenericStrategy extends BaseExtractionStrategy implements ExtractionStrategy {
   readonly name = 'Generic';
 
-  canHandle(data: any, url: string): boolean {
+  canHandle(_data: any, _url: string): boolean {
     return true;
   }
 
@@ -77,7 +77,7 @@ export class GenericStrategy extends BaseExtractionStrategy implements Extractio
       'Unknown Product'
     );
 
-    const price = this.extractPrice(item);
+    const price = this.extractPrice(item, sourceUrl);
     const product = this.createBaseProduct(productId, name, price, domain, sourceUrl, jobId);
 
     if (item.brand) product.brand = String(item.brand);
@@ -111,7 +111,7 @@ export class GenericStrategy extends BaseExtractionStrategy implements Extractio
     return product;
   }
 
-  private extractPrice(item: any): ProductPrice {
+  private extractPrice(item: any, sourceUrl: string): ProductPrice {
     const priceValue =
       item.price ||
       item.currentPrice ||
@@ -119,13 +119,14 @@ export class GenericStrategy extends BaseExtractionStrategy implements Extractio
       item.amount ||
       0;
 
+    const fallbackCurrency = this.siteCurrency(sourceUrl) || 'USD';
     const currency =
       item.currency ||
-      (item.priceSymbol ? this.extractCurrency(item.priceSymbol) : 'USD');
+      (item.priceSymbol ? this.extractCurrency(item.priceSymbol, fallbackCurrency) : fallbackCurrency);
 
     return {
       amount: this.parsePrice(priceValue),
-      currency: typeof currency === 'string' ? currency : 'USD',
+      currency: typeof currency === 'string' ? currency : fallbackCurrency,
     };
   }
 
@@ -0,0 +1,184 @@
+import { Collection, AnyBulkWriteOperation, Filter } from 'mongodb';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { FxRate, NormalizedPrice } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** UTC midnight of the day `date` falls on. */
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * FxConverter
+ * In-memory snapshot of the rate table. Converts with the latest rate on or
+ * before the observation day; PEN is the base currency (rate 1).
+ */
+export class FxConverter {
+  private rates: Map<string, Array<{ date: number; rate: number }>>;
+
+  constructor(rates: FxRate[]) {
+    this.rates = new Map();
+    for (const { currency, date, rate } of rates) {
+      const series = this.rates.get(currency) || [];
+      series.push({ date: date.getTime(), rate });
+      this.rates.set(currency, series);
+    }
+    this.rates.forEach((series) => series.sort((a, b) => a.date - b.date));
+  }
+
+  /** PEN per 1 unit of `currency` at `at`, or null if no rate is known yet. */
+  rateAt(currency: string, at: Date): { rate: number; date: Date } | null {
+    if (currency === 'PEN') return { rate: 1, date: startOfDay(at) };
+
+    const series = this.rates.get(currency);
+    if (!series) return null;
+    const day = startOfDay(at).getTime();
+    let found: { date: number; rate: number } | null = null;
+    for (const entry of series) {
+      if (entry.date > day) break;
+      found = entry;
+    }
+    return found && { rate: found.rate, date: new Date(found.date) };
+  }
+
+  /**
+   * PEN and USD figures of a price observed at `at`. `knownUsd` is a USD
+   * amount shown by the source itself, preferred over a conversion.
+   */
+  normalize(
+    amount: number,
+    currency: string,
+    at: Date,
+    options: { knownUsd?: number; pricePerSqm?: number } = {}
+  ): NormalizedPrice {
+    const normalized: NormalizedPrice = {};
+    const toPen = this.rateAt(currency, at);
+    const usd = this.rateAt('USD', at);
+
+    if (currency === 'PEN') normalized.amountPen = amount;
+    else if (toPen) normalized.amountPen = round(amount * toPen.rate);
+
+    if (options.knownUsd != null) normalized.amountUsd = options.knownUsd;
+    else if (currency === 'USD') normalized.amountUsd = amount;
+    else if (normalized.amountPen != null && usd) normalized.amountUsd = round(normalized.amountPen / usd.rate);
+
+    if (options.pricePerSqm != null && amount > 0) {
+      if (normalized.amountPen != null) {
+        normalized.pricePerSqmPen = round((options.pricePerSqm * normalized.amountPen) / amount);
+      }
+      if (normalized.amountUsd != null) {
+        normalized.pricePerSqmUsd = round((options.pricePerSqm * normalized.amountUsd) / amount);
+      }
+    }
+
+    // Day of the rate(s) actually used; the older one when two were involved
+    const used: Date[] = [];
+    if (currency !== 'PEN' && toPen) used.push(toPen.date);
+    if (currency !== 'USD' && options.knownUsd == null && normalized.amountUsd != null) {
+      used.push(usd!.date);
+    }
+    if (used.length > 0) {
+      normalized.rateDate = new Date(Math.min(...used.map((date) => date.getTime())));
+    }
+    return normalized;
+  }
+}
+
+/**
+ * FxRateService
+ * Dated exchange rates (fx_rates), imported from CSV or entered manually,
+ * used to store PEN/USD-normalized prices alongside the original ones.
+ */
+export class FxRateService {
+  private collection: Collection<FxRate>;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collection = mongo.collection('fx_rates');
+  }
+
+  /**
+   * Set the rate of `currency` (PEN per unit) from `date` on
+   */
+  async setRate(
+    currency: string,
+    date: Date,
+    rate: number,
+    source: FxRate['source'] = 'manual'
+  ): Promise<void> {
+    this.validate(currency, date, rate);
+    await this.collection.updateOne(
+      { currency, date: startOfDay(date) },
+      { $set: { rate, source, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Import rates from CSV lines `date,currency,rate` (e.g.
+   * `2026-03-01,USD,3.71`); a header line is skipped. Returns the number of
+   * rates written.
+   */
+  async importCsv(content: string): Promise<number> {
+    const now = new Date();
+    const operations: AnyBulkWriteOperation<FxRate>[] = [];
+
+    content.split(/\r?\n/).forEach((line, i) => {
+      const trimmed = line.trim();
+      if (!trimmed || (i === 0 && /^date\s*,/i.test(trimmed))) return;
+
+      const [dateText, currencyText, rateText] = trimmed.split(',').map((cell) => cell.trim());
+      const date = new Date(dateText);
+      const currency = (currencyText || '').toUpperCase();
+      const rate = parseFloat(rateText);
+      try {
+        this.validate(currency, date, rate);
+      } catch (error) {
+        throw new Error(`Invalid FX rate on line ${i + 1}: ${(error as Error).message}`);
+      }
+
+      operations.push({
+        updateOne: {
+          filter: { currency, date: startOfDay(date) },
+          update: { $set: { rate, source: 'csv', updatedAt: now } },
+          upsert: true,
+        },
+      });
+    });
+
+    if (operations.length === 0) return 0;
+    await this.collection.bulkWrite(operations, { ordered: false });
+    console.log(`Imported ${operations.length} FX rate(s)`);
+    return operations.length;
+  }
+
+  async listRates(query: { currency?: string; from?: Date; to?: Date } = {}): Promise<FxRate[]> {
+    const filter: Filter<FxRate> = {};
+    if (query.currency) filter.currency = query.currency;
+    if (query.from || query.to) {
+      filter.date = {
+        ...(query.from && { $gte: startOfDay(query.from) }),
+        ...(query.to && { $lte: query.to }),
+      };
+    }
+    return this.collection.find(filter).sort({ currency: 1, date: 1 }).toArray();
+  }
+
+  /**
+   * Snapshot of the whole rate table for converting a batch of records
+   */
+  async converter(): Promise<FxConverter> {
+    return new FxConverter(await this.collection.find().toArray());
+  }
+
+  private validate(currency: string, date: Date, rate: number): void {
+    if (!/^[A-Z]{3}$/.test(currency)) throw new Error(`invalid currency "${currency}"`);
+    if (currency === 'PEN') throw new Error('PEN is the base currency');
+    if (isNaN(date.getTime())) throw new Error('invalid date');
+    if (!(rate > 0)) throw new Error(`invalid rate "${rate}"`);
+  }
+}
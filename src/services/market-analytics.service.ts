@@ -0,0 +1,379 @@
+import { Collection, Filter } from 'mongodb';
+import { distribution } from '../utils/stats';
+import { MongoConnectionService } from './mongo-connection.service';
+import { FxConverter, FxRateService } from './fx-rate.service';
+import type { NormalizedPrice } from '../types';
+import type {
+  MarketGrouping,
+  MarketRun,
+  MarketSegment,
+  MarketSeries,
+  StoredListing,
+} from '../types/real-estate.types';
+
+export interface MarketSegmentQuery {
+  groupBy?: MarketGrouping;
+  district?: string;
+  neighborhood?: string;
+  listingType?: MarketSegment['listingType'];
+  propertyType?: MarketSegment['propertyType'];
+  bedrooms?: number;
+  // Leave out segments with fewer active listings
+  minListings?: number;
+}
+
+export interface MarketSeriesQuery {
+  district?: string;
+  listingType?: MarketSeries['listingType'];
+}
+
+export interface MarketRefreshReport {
+  computedAt: Date;
+  listings: number;
+  segments: number;
+  series: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+// Bedroom counts from here up share one bucket
+const MAX_BEDROOMS_BUCKET = 5;
+const GROUPINGS: MarketGrouping[] = ['district', 'neighborhood', 'bedrooms'];
+
+interface SegmentAccumulator {
+  segment: Omit<
+    MarketSegment,
+    'computedAt' | 'activeListings' | 'newListings' | 'price' | 'pricePerSqm'
+  >;
+  active: number;
+  fresh: number;
+  pricePen: number[];
+  priceUsd: number[];
+  sqmPen: number[];
+  sqmUsd: number[];
+}
+
+interface SeriesAccumulator {
+  district: string;
+  listingType: MarketSeries['listingType'];
+  fresh: number[];
+  delisted: number[];
+  inventory: number[];
+  pricesPen: number[][];
+  pricesUsd: number[][];
+}
+
+/**
+ * MarketAnalyticsService
+ * Price distributions (p25/median/p75 of price and price per sqm, in PEN
+ * and USD), inventory and new-listing counts per district, neighborhood,
+ * listing/property type and bedroom count, plus weekly series per district
+ * rebuilt from firstSeenAt, delistedAt and priceHistory.
+ *
+ * Computing scans every listing live within the series window, so results
+ * are materialized by refresh() (on a schedule) into market_segments and
+ * market_series, and queries read the latest run recorded in market_runs.
+ */
+export class MarketAnalyticsService {
+  private listings: Collection<StoredListing>;
+  private segmentsCollection: Collection<MarketSegment>;
+  private seriesCollection: Collection<MarketSeries>;
+  private runs: Collection<MarketRun>;
+  private fx: FxRateService | null;
+  private refreshing: Promise<MarketRefreshReport> | null = null;
+
+  constructor(mongo: MongoConnectionService, fx?: FxRateService) {
+    this.listings = mongo.collection('real_estate_listings');
+    this.segmentsCollection = mongo.collection('market_segments');
+    this.seriesCollection = mongo.collection('market_series');
+    this.runs = mongo.collection('market_runs');
+    this.fx = fx || null;
+  }
+
+  /**
+   * Recompute and replace the materialized analytics. A call made while a
+   * refresh is running shares it.
+   */
+  refresh(weeks: number): Promise<MarketRefreshReport> {
+    if (!this.refreshing) {
+      this.refreshing = this.recompute(weeks).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /** Segments of the latest run, most active first */
+  async segments(
+    query: MarketSegmentQuery = {}
+  ): Promise<{ computedAt: Date | null; items: MarketSegment[] }> {
+    const computedAt = await this.latestRun();
+    if (!computedAt) return { computedAt: null, items: [] };
+
+    const filter: Filter<MarketSegment> = { computedAt, groupBy: query.groupBy || 'district' };
+    if (query.district) filter.district = query.district;
+    if (query.neighborhood) filter.neighborhood = query.neighborhood;
+    if (query.listingType) filter.listingType = query.listingType;
+    if (query.propertyType) filter.propertyType = query.propertyType;
+    if (query.bedrooms !== undefined) filter.bedrooms = query.bedrooms;
+    if (query.minListings) filter.activeListings = { $gte: query.minListings };
+
+    const items = await this.segmentsCollection
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ activeListings: -1, district: 1 })
+      .toArray();
+    return { computedAt, items };
+  }
+
+  /** Weekly series of the latest run */
+  async series(
+    query: MarketSeriesQuery = {}
+  ): Promise<{ computedAt: Date | null; items: MarketSeries[] }> {
+    const computedAt = await this.latestRun();
+    if (!computedAt) return { computedAt: null, items: [] };
+
+    const filter: Filter<MarketSeries> = { computedAt };
+    if (query.district) filter.district = query.district;
+    if (query.listingType) filter.listingType = query.listingType;
+
+    const items = await this.seriesCollection
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ district: 1, listingType: 1 })
+      .toArray();
+    return { computedAt, items };
+  }
+
+  private async latestRun(): Promise<Date | null> {
+    const latest = await this.runs
+      .find({}, { projection: { computedAt: 1 } })
+      .sort({ computedAt: -1 })
+      .limit(1)
+      .next();
+    return latest?.computedAt ?? null;
+  }
+
+  private async recompute(weeks: number): Promise<MarketRefreshReport> {
+    const computedAt = new Date();
+    const weekStarts = weekStartsUntil(computedAt, weeks);
+    const windowStart = weekStarts[0];
+    const fx = this.fx ? await this.fx.converter() : new FxConverter([]);
+
+    const segments = new Map<string, SegmentAccumulator>();
+    const series = new Map<string, SeriesAccumulator>();
+    let scanned = 0;
+
+    // Everything live at some point of the window
+    const cursor = this.listings
+      .find({
+        firstSeenAt: { $lte: computedAt },
+        $or: [
+          { active: true },
+          { lastSeenAt: { $gte: windowStart } },
+          { delistedAt: { $gte: windowStart } },
+        ],
+      })
+      .project<StoredListing>({
+        listingType: 1,
+        propertyType: 1,
+        'location.district': 1,
+        'location.neighborhood': 1,
+        'details.bedrooms': 1,
+        'details.builtArea': 1,
+        'details.totalArea': 1,
+        price: 1,
+        normalizedPrice: 1,
+        priceHistory: 1,
+        firstSeenAt: 1,
+        lastSeenAt: 1,
+        delistedAt: 1,
+        active: 1,
+      });
+
+    for await (const listing of cursor) {
+      const district = listing.location?.district;
+      if (!district || !listing.listingType) continue;
+      scanned++;
+      this.addToSegments(segments, listing, district, computedAt, fx);
+      this.addToSeries(series, listing, district, weekStarts, computedAt, fx);
+    }
+
+    const segmentDocs: MarketSegment[] = [...segments.values()].map((acc) => ({
+      ...acc.segment,
+      computedAt,
+      activeListings: acc.active,
+      newListings: acc.fresh,
+      price: { PEN: distribution(acc.pricePen), USD: distribution(acc.priceUsd) },
+      pricePerSqm: { PEN: distribution(acc.sqmPen), USD: distribution(acc.sqmUsd) },
+    }));
+    const seriesDocs: MarketSeries[] = [...series.values()].map((acc) => ({
+      computedAt,
+      district: acc.district,
+      listingType: acc.listingType,
+      points: weekStarts.map((weekStart, week) => ({
+        weekStart,
+        newListings: acc.fresh[week],
+        delistedListings: acc.delisted[week],
+        inventory: acc.inventory[week],
+        medianPrice: {
+          PEN: distribution(acc.pricesPen[week])?.median ?? null,
+          USD: distribution(acc.pricesUsd[week])?.median ?? null,
+        },
+      })),
+    }));
+
+    // Readers follow market_runs, so the new run becomes visible only once
+    // its run doc is written, and older runs (plus what an interrupted
+    // refresh left behind) are dropped only after that
+    for (let i = 0; i < segmentDocs.length; i += 1000) {
+      await this.segmentsCollection.insertMany(segmentDocs.slice(i, i + 1000));
+    }
+    for (let i = 0; i < seriesDocs.length; i += 1000) {
+      await this.seriesCollection.insertMany(seriesDocs.slice(i, i + 1000));
+    }
+    const report = {
+      computedAt,
+      listings: scanned,
+      segments: segmentDocs.length,
+      series: seriesDocs.length,
+    };
+    await this.runs.insertOne({ ...report, completedAt: new Date() });
+    await this.segmentsCollection.deleteMany({ computedAt: { $lt: computedAt } });
+    await this.seriesCollection.deleteMany({ computedAt: { $lt: computedAt } });
+    await this.runs.deleteMany({ computedAt: { $lt: computedAt } });
+
+    console.log(
+      `✓ Market analytics refreshed: ${report.segments} segment(s) and ${report.series} ` +
+        `series from ${report.listings} listing(s)`
+    );
+    return report;
+  }
+
+  private addToSegments(
+    segments: Map<string, SegmentAccumulator>,
+    listing: StoredListing,
+    district: string,
+    now: Date,
+    fx: FxConverter
+  ): void {
+    const fresh = listing.firstSeenAt.getTime() >= now.getTime() - WEEK_MS;
+    if (!listing.active && !fresh) return;
+
+    const normalized = currentPrice(listing, fx);
+    const area = listing.details?.builtArea || listing.details?.totalArea;
+    const bedrooms = listing.details?.bedrooms;
+    const { neighborhood } = listing.location;
+
+    for (const groupBy of GROUPINGS) {
+      if (groupBy === 'neighborhood' && !neighborhood) continue;
+      if (groupBy === 'bedrooms' && bedrooms == null) continue;
+
+      const segment: SegmentAccumulator['segment'] = {
+        groupBy,
+        district,
+        ...(groupBy === 'neighborhood' && { neighborhood }),
+        listingType: listing.listingType,
+        propertyType: listing.propertyType,
+        ...(groupBy === 'bedrooms' && { bedrooms: Math.min(bedrooms!, MAX_BEDROOMS_BUCKET) }),
+      };
+      const key = JSON.stringify(segment);
+      let acc = segments.get(key);
+      if (!acc) {
+        acc = { segment, active: 0, fresh: 0, pricePen: [], priceUsd: [], sqmPen: [], sqmUsd: [] };
+        segments.set(key, acc);
+      }
+
+      if (fresh) acc.fresh++;
+      if (!listing.active) continue;
+      acc.active++;
+      if (normalized.amountPen != null) acc.pricePen.push(normalized.amountPen);
+      if (normalized.amountUsd != null) acc.priceUsd.push(normalized.amountUsd);
+      const sqmPen = normalized.pricePerSqmPen ?? perSqm(normalized.amountPen, area);
+      const sqmUsd = normalized.pricePerSqmUsd ?? perSqm(normalized.amountUsd, area);
+      if (sqmPen != null) acc.sqmPen.push(sqmPen);
+      if (sqmUsd != null) acc.sqmUsd.push(sqmUsd);
+    }
+  }
+
+  private addToSeries(
+    series: Map<string, SeriesAccumulator>,
+    listing: StoredListing,
+    district: string,
+    weekStarts: Date[],
+    now: Date,
+    fx: FxConverter
+  ): void {
+    const key = `${district}|${listing.listingType}`;
+    let acc = series.get(key);
+    if (!acc) {
+      const zeros = () => weekStarts.map(() => 0);
+      acc = {
+        district,
+        listingType: listing.listingType,
+        fresh: zeros(),
+        delisted: zeros(),
+        inventory: zeros(),
+        pricesPen: weekStarts.map(() => []),
+        pricesUsd: weekStarts.map(() => []),
+      };
+      series.set(key, acc);
+    }
+
+    // Docs delisted before delistedAt was recorded end at lastSeenAt
+    const delistedAt = listing.active ? null : listing.delistedAt || listing.lastSeenAt;
+    const firstWeek = weekIndex(weekStarts, listing.firstSeenAt);
+    if (firstWeek !== null) acc.fresh[firstWeek]++;
+    if (delistedAt) {
+      const week = weekIndex(weekStarts, delistedAt);
+      if (week !== null) acc.delisted[week]++;
+    }
+
+    // Price history in effect at each week's end, each entry normalized once
+    const history = [...(listing.priceHistory || [])].sort(
+      (a, b) => a.changedAt.getTime() - b.changedAt.getTime()
+    );
+    const normalized: NormalizedPrice[] = [];
+    const priceAt = (i: number): NormalizedPrice => {
+      const { amount, currency, usdAmount, changedAt } = history[i];
+      normalized[i] ||= fx.normalize(amount, currency, changedAt, { knownUsd: usdAmount });
+      return normalized[i];
+    };
+    let entry = -1;
+    weekStarts.forEach((weekStart, week) => {
+      const end = new Date(Math.min(weekStart.getTime() + WEEK_MS, now.getTime()));
+      const live = listing.firstSeenAt < end && (!delistedAt || delistedAt >= end);
+      if (!live) return;
+      acc!.inventory[week]++;
+
+      while (entry + 1 < history.length && history[entry + 1].changedAt < end) entry++;
+      const price = entry >= 0 ? priceAt(entry) : currentPrice(listing, fx);
+      if (price.amountPen != null) acc!.pricesPen[week].push(price.amountPen);
+      if (price.amountUsd != null) acc!.pricesUsd[week].push(price.amountUsd);
+    });
+  }
+}
+
+/** Stored normalized price, or one computed now for listings stored before FX support */
+function currentPrice(listing: StoredListing, fx: FxConverter): NormalizedPrice {
+  if (listing.normalizedPrice) return listing.normalizedPrice;
+  if (!listing.price?.amount) return {};
+  return fx.normalize(listing.price.amount, listing.price.currency, listing.lastSeenAt, {
+    knownUsd: listing.price.usdAmount,
+    pricePerSqm: listing.price.pricePerSqm,
+  });
+}
+
+function perSqm(amount: number | undefined, area: number | undefined): number | undefined {
+  return amount != null && area ? amount / area : undefined;
+}
+
+/** Monday 00:00 UTC of each of the `weeks` weeks up to and including the current one */
+function weekStartsUntil(now: Date, weeks: number): Date[] {
+  const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+  const monday = today - ((new Date(today).getUTCDay() + 6) % 7) * DAY_MS;
+  return Array.from({ length: weeks }, (_, i) => new Date(monday - (weeks - 1 - i) * WEEK_MS));
+}
+
+function weekIndex(weekStarts: Date[], at: Date): number | null {
+  const week = Math.floor((at.getTime() - weekStarts[0].getTime()) / WEEK_MS);
+  return week >= 0 && week < weekStarts.length ? week : null;
+}
@@ -0,0 +1,101 @@
+import { Collection } from 'mongodb';
+import { MIGRATIONS, type Migration } from '../migrations';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { BlobStore } from './blob-store.service';
+import type { MigrationRecord } from '../types';
+
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  appliedAt?: Date;
+}
+
+export interface MigrationRun {
+  id: string;
+  affected: number;
+  durationMs: number;
+}
+
+/**
+ * MigrationService
+ * Applies the ordered schema migrations in src/migrations and records each
+ * one in the migrations collection, so backfills run once and deliberately
+ * instead of inside the upsert paths.
+ */
+export class MigrationService {
+  private mongo: MongoConnectionService;
+  private blobs: BlobStore;
+  private collection: Collection<MigrationRecord>;
+  private migrations: Migration[];
+
+  constructor(mongo: MongoConnectionService, blobs: BlobStore, migrations: Migration[] = MIGRATIONS) {
+    this.mongo = mongo;
+    this.blobs = blobs;
+    this.collection = mongo.collection('migrations');
+    this.migrations = migrations;
+  }
+
+  /**
+   * Every known migration with its applied time (unset if pending)
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.applied();
+    return this.migrations.map((migration) => ({
+      id: migration.id,
+      description: migration.description,
+      ...(applied.has(migration.id) && { appliedAt: applied.get(migration.id)!.appliedAt }),
+    }));
+  }
+
+  async pending(): Promise<Migration[]> {
+    const applied = await this.applied();
+    return this.migrations.filter((migration) => !applied.has(migration.id));
+  }
+
+  /**
+   * Apply pending migrations in order, stopping after `to` when given. A
+   * failing migration stops the run and is left pending. With `dryRun`
+   * nothing is written or recorded; `affected` is what would change.
+   */
+  async up(options: { dryRun?: boolean; to?: string } = {}): Promise<MigrationRun[]> {
+    const dryRun = !!options.dryRun;
+    if (options.to && !this.migrations.some((migration) => migration.id === options.to)) {
+      throw new Error(`Unknown migration: ${options.to}`);
+    }
+
+    const runs: MigrationRun[] = [];
+    for (const migration of await this.pending()) {
+      const startedAt = Date.now();
+      console.log(`${dryRun ? 'Checking' : 'Applying'} migration ${migration.id}: ${migration.description}`);
+
+      const affected = await migration.up({ mongo: this.mongo, blobs: this.blobs, dryRun });
+      const durationMs = Date.now() - startedAt;
+      runs.push({ id: migration.id, affected, durationMs });
+
+      if (!dryRun) {
+        await this.collection.insertOne({
+          id: migration.id,
+          description: migration.description,
+          appliedAt: new Date(),
+          durationMs,
+          affected,
+        });
+      }
+      console.log(
+        `Migration ${migration.id} ${dryRun ? 'would change' : 'changed'} ${affected} document(s) in ${durationMs}ms`
+      );
+
+      if (migration.id === options.to) break;
+    }
+
+    if (runs.length === 0) {
+      console.log('No pending migrations');
+    }
+    return runs;
+  }
+
+  private async applied(): Promise<Map<string, MigrationRecord>> {
+    const records = await this.collection.find().toArray();
+    return new Map(records.map((record) => [record.id, record]));
+  }
+}
@@ -0,0 +1,157 @@
+import { MongoClient, Db, Collection, Document, GridFSBucket } from 'mongodb';
+import { CONFIG } from '../config';
+import { COLLECTIONS, INDEXES } from '../config/indexes';
+import type {
+  ChangeLogEntry,
+  ExtractionFailure,
+  FxRate,
+  MigrationRecord,
+  PriceObservation,
+  StoredResultDocument,
+} from '../types';
+import type {
+  ProductAlert,
+  ProductVersion,
+  ProductWatchRule,
+  StoredProduct,
+} from '../types/product.types';
+import type {
+  ListingAlert,
+  MarketRun,
+  MarketSegment,
+  MarketSeries,
+  SavedSearch,
+  StoredListing,
+} from '../types/real-estate.types';
+import type { OutboxEntry } from '../types/event.types';
+
+/** Document type stored in each collection */
+export interface CollectionMap {
+  scrape_jobs: StoredResultDocument;
+  products: StoredProduct;
+  real_estate_listings: StoredListing;
+  extraction_failures: ExtractionFailure;
+  change_log: ChangeLogEntry;
+  product_versions: ProductVersion;
+  migrations: MigrationRecord;
+  price_observations: PriceObservation;
+  fx_rates: FxRate;
+  saved_searches: SavedSearch;
+  listing_alerts: ListingAlert;
+  product_watches: ProductWatchRule;
+  product_alerts: ProductAlert;
+  event_outbox: OutboxEntry;
+  market_segments: MarketSegment;
+  market_series: MarketSeries;
+  market_runs: MarketRun;
+}
+
+export type CollectionName = keyof CollectionMap;
+
+/**
+ * MongoConnectionService
+ * Owns the single MongoClient shared by every storage service: connects
+ * (with retries), creates collections and indexes from config/indexes.ts,
+ * hands out typed collections and closes the client on shutdown.
+ */
+export class MongoConnectionService {
+  private client: MongoClient;
+  private db: Db;
+  private connected = false;
+  private poolCleared = false;
+
+  constructor(uri: string = CONFIG.mongodb.uri, database: string = CONFIG.mongodb.database) {
+    this.client = new MongoClient(uri);
+    this.db = this.client.db(database);
+
+    // The driver reconnects on its own; log when the pool drops and recovers
+    this.client.on('connectionPoolCleared', () => {
+      if (this.poolCleared) return;
+      this.poolCleared = true;
+      console.warn('MongoDB connection lost, reconnecting...');
+    });
+    this.client.on('connectionPoolReady', () => {
+      if (!this.poolCleared) return;
+      this.poolCleared = false;
+      console.log('MongoDB connection restored');
+    });
+  }
+
+  /**
+   * Typed handle to a collection. Handles are lazy, so services can take
+   * them at construction time, before connect().
+   */
+  collection<K extends CollectionName>(name: K): Collection<CollectionMap[K]> {
+    return this.db.collection<CollectionMap[K]>(name);
+  }
+
+  /** GridFS bucket for large binary payloads (see BlobStore). */
+  bucket(name: string): GridFSBucket {
+    return new GridFSBucket(this.db, { bucketName: name });
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    const attempts = Math.max(1, CONFIG.mongodb.connectRetries);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.client.connect();
+        break;
+      } catch (error) {
+        if (attempt >= attempts) {
+          console.error('Failed to connect to MongoDB:', error);
+          throw error;
+        }
+        const delay = CONFIG.mongodb.connectRetryDelayMs * 2 ** (attempt - 1);
+        console.warn(`MongoDB connection attempt ${attempt}/${attempts} failed, retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    this.connected = true;
+    console.log(`Connected to MongoDB: ${this.db.databaseName}`);
+
+    await this.ensureCollections();
+    await this.ensureIndexes();
+  }
+
+  /**
+   * Create the collections in config/indexes.ts COLLECTIONS (e.g. time
+   * series) that do not exist yet; they cannot be created implicitly.
+   */
+  private async ensureCollections(): Promise<void> {
+    const existing = new Set(
+      (await this.db.listCollections({}, { nameOnly: true }).toArray()).map((c) => c.name)
+    );
+    for (const [name, options] of Object.entries(COLLECTIONS)) {
+      if (existing.has(name)) continue;
+      await this.db.createCollection(name, options);
+      console.log(`Created MongoDB collection ${name}`);
+    }
+  }
+
+  /**
+   * Create every index in config/indexes.ts. Failures are logged per
+   * collection and do not prevent startup.
+   */
+  private async ensureIndexes(): Promise<void> {
+    for (const [name, indexes] of Object.entries(INDEXES)) {
+      try {
+        const collection = this.db.collection<Document>(name);
+        for (const index of indexes) {
+          await collection.createIndex(index.key, index.options);
+        }
+      } catch (error) {
+        console.error(`Failed to create ${name} indexes:`, error);
+      }
+    }
+    console.log('MongoDB indexes created');
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    this.connected = false;
+    console.log('MongoDB connection closed');
+  }
+}
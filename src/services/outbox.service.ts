@@ -0,0 +1,180 @@
+import { createHash, randomUUID } from 'crypto';
+import { Collection, Document, Filter, MongoBulkWriteError, ObjectId, WithId } from 'mongodb';
+import { MongoConnectionService } from './mongo-connection.service';
+import type {
+  DomainEvent,
+  DomainEventType,
+  EventPrice,
+  OutboxEntry,
+} from '../types/event.types';
+
+/** A new event of `type`, with a fresh id unless one is given */
+export function createEvent<T extends DomainEventType>(
+  type: T,
+  occurredAt: Date,
+  data: Extract<DomainEvent, { type: T }>['data'],
+  id: string = randomUUID()
+): DomainEvent {
+  return { id, type, version: 1, occurredAt, data } as DomainEvent;
+}
+
+/** The event form of a stored price; null when there is none */
+export function eventPrice(
+  price: { amount: number; currency: string; usdAmount?: number } | undefined
+): EventPrice | null {
+  if (price?.amount == null) return null;
+  return {
+    amount: price.amount,
+    currency: price.currency,
+    ...(price.usdAmount != null && { usdAmount: price.usdAmount }),
+  };
+}
+
+/**
+ * UUID-shaped id derived from `key`, for an event that may be built again
+ * from the same record state (so the outbox keeps it once).
+ */
+export function stableEventId(key: string): string {
+  const hex = createHash('sha256').update(key).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/** Events grouped by the record they are about */
+export function eventsByRecord(events: DomainEvent[]): Map<string, DomainEvent[]> {
+  const byRecord = new Map<string, DomainEvent[]>();
+  for (const event of events) {
+    byRecord.set(event.data.uniqueKey, [...(byRecord.get(event.data.uniqueKey) || []), event]);
+  }
+  return byRecord;
+}
+
+/** A record that carries its not yet stored events, written with the change that raised them */
+type EventSource = Document & { uniqueKey: string; pendingEvents?: DomainEvent[] };
+
+/** Events that could not be written to the outbox; the caller's records may be. */
+export class OutboxWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxWriteError';
+  }
+}
+
+/**
+ * OutboxService
+ * Stores domain events in event_outbox; EventPublisherService moves them to
+ * the events queue. The storage services write each record change together
+ * with its events (the record's pendingEvents) and then move the events
+ * here, so neither MongoDB nor Redis failing can drop them.
+ */
+export class OutboxService {
+  private collection: Collection<OutboxEntry>;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collection = mongo.collection('event_outbox');
+  }
+
+  /**
+   * Store events for publishing. Events already stored (same id) are
+   * skipped; throws OutboxWriteError when the others are not stored.
+   */
+  async add(events: DomainEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const createdAt = new Date();
+    try {
+      await this.collection.insertMany(
+        events.map((event) => ({ event, createdAt, publishedAt: null, attempts: 0 })),
+        { ordered: false }
+      );
+    } catch (error) {
+      const duplicatesOnly =
+        error instanceof MongoBulkWriteError &&
+        (Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors]).every(
+          (e) => e.code === 11000
+        );
+      if (duplicatesOnly) return;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OutboxWriteError(`Failed to record ${events.length} event(s): ${message}`);
+    }
+  }
+
+  /**
+   * Store events written onto their records in `collection`, then take them
+   * off the records. Whatever fails stays on the records for flushPending.
+   */
+  async moveFromRecords<T extends EventSource>(
+    collection: Collection<T>,
+    events: DomainEvent[]
+  ): Promise<void> {
+    if (events.length === 0) return;
+    await this.add(events);
+
+    const ids = events.map((event) => event.id);
+    const carrying: Filter<EventSource> = {
+      uniqueKey: { $in: [...new Set(events.map((event) => event.data.uniqueKey))] },
+      'pendingEvents.id': { $in: ids },
+    };
+    await collection.updateMany(
+      carrying as Filter<T>,
+      [
+        {
+          $set: {
+            pendingEvents: {
+              $filter: { input: '$pendingEvents', cond: { $not: { $in: ['$$this.id', ids] } } },
+            },
+          },
+        },
+        {
+          $set: {
+            pendingEvents: {
+              $cond: [{ $gt: [{ $size: '$pendingEvents' }, 0] }, '$pendingEvents', '$$REMOVE'],
+            },
+          },
+        },
+      ]
+    );
+  }
+
+  /**
+   * Move events left on records of `collection` (a failed move) to the
+   * outbox, up to `limit` records. Returns the number of records handled.
+   */
+  async flushPending<T extends EventSource>(
+    collection: Collection<T>,
+    limit: number
+  ): Promise<number> {
+    const records = await collection
+      .find({ 'pendingEvents.id': { $exists: true } } as Filter<EventSource> as Filter<T>, {
+        projection: { pendingEvents: 1 },
+      })
+      .limit(limit)
+      .toArray();
+    await this.moveFromRecords(
+      collection,
+      records.flatMap((record) => record.pendingEvents || [])
+    );
+    return records.length;
+  }
+
+  /** Unpublished entries, oldest first */
+  async pending(limit: number): Promise<WithId<OutboxEntry>[]> {
+    return this.collection.find({ publishedAt: null }).sort({ _id: 1 }).limit(limit).toArray();
+  }
+
+  async markPublished(ids: ObjectId[]): Promise<void> {
+    await this.collection.updateMany(
+      { _id: { $in: ids } },
+      { $set: { publishedAt: new Date() }, $inc: { attempts: 1 }, $unset: { lastError: '' } }
+    );
+  }
+
+  async markFailed(ids: ObjectId[], error: string): Promise<void> {
+    await this.collection.updateMany(
+      { _id: { $in: ids } },
+      { $set: { lastError: error }, $inc: { attempts: 1 } }
+    );
+  }
+
+  async countPending(): Promise<number> {
+    return this.collection.countDocuments({ publishedAt: null });
+  }
+}
@@ -0,0 +1,137 @@
+import { Collection } from 'mongodb';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { PriceObservation } from '../types';
+
+export interface PriceWindowStats {
+  currency: string;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+  first: Date;
+  last: Date;
+}
+
+export interface DailyPrice {
+  day: Date; // start of the day in the requested timezone
+  currency: string;
+  open: number;
+  close: number;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+/**
+ * PriceObservationService
+ * Every observed price of every product and listing, in the
+ * price_observations time-series collection. Unlike the embedded
+ * priceHistory arrays (changes only, products capped at 100), this keeps
+ * each observation and supports window queries.
+ */
+export class PriceObservationService {
+  private collection: Collection<PriceObservation>;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collection = mongo.collection('price_observations');
+  }
+
+  /**
+   * Store observations. Ones already recorded for the same job and record
+   * (e.g. when a job is reprocessed) are skipped.
+   */
+  async record(observations: PriceObservation[]): Promise<void> {
+    if (observations.length === 0) return;
+
+    const jobIds = [...new Set(observations.flatMap((o) => (o.jobId ? [o.jobId] : [])))];
+    const seen = new Set<string>();
+    if (jobIds.length > 0) {
+      const existing = await this.collection
+        .find(
+          {
+            jobId: { $in: jobIds },
+            'meta.uniqueKey': { $in: observations.map((o) => o.meta.uniqueKey) },
+          },
+          { projection: { _id: 0, jobId: 1, 'meta.uniqueKey': 1 } }
+        )
+        .toArray();
+      existing.forEach((o) => seen.add(`${o.jobId}|${o.meta.uniqueKey}`));
+    }
+
+    const fresh = observations.filter((o) => !o.jobId || !seen.has(`${o.jobId}|${o.meta.uniqueKey}`));
+    if (fresh.length === 0) return;
+
+    await this.collection.insertMany(fresh, { ordered: false });
+  }
+
+  /**
+   * Price in effect at `at`: the latest observation at or before it
+   */
+  async priceAt(uniqueKey: string, at: Date): Promise<PriceObservation | null> {
+    return this.collection.findOne(
+      { 'meta.uniqueKey': uniqueKey, observedAt: { $lte: at } },
+      { sort: { observedAt: -1 } }
+    );
+  }
+
+  /**
+   * Min/max/avg price over [from, to], one entry per currency observed
+   */
+  async windowStats(uniqueKey: string, from: Date, to: Date): Promise<PriceWindowStats[]> {
+    return this.collection
+      .aggregate<PriceWindowStats>([
+        { $match: { 'meta.uniqueKey': uniqueKey, observedAt: { $gte: from, $lte: to } } },
+        {
+          $group: {
+            _id: '$currency',
+            min: { $min: '$amount' },
+            max: { $max: '$amount' },
+            avg: { $avg: '$amount' },
+            count: { $sum: 1 },
+            first: { $min: '$observedAt' },
+            last: { $max: '$observedAt' },
+          },
+        },
+        { $set: { currency: '$_id' } },
+        { $unset: '_id' },
+        { $sort: { count: -1 } },
+      ])
+      .toArray();
+  }
+
+  /**
+   * One row per day (and currency) over [from, to], with open/close being
+   * the first/last observation of the day
+   */
+  async daily(
+    uniqueKey: string,
+    from: Date,
+    to: Date,
+    timezone: string = 'UTC'
+  ): Promise<DailyPrice[]> {
+    return this.collection
+      .aggregate<DailyPrice>([
+        { $match: { 'meta.uniqueKey': uniqueKey, observedAt: { $gte: from, $lte: to } } },
+        { $sort: { observedAt: 1 } },
+        {
+          $group: {
+            _id: {
+              day: { $dateTrunc: { date: '$observedAt', unit: 'day', timezone } },
+              currency: '$currency',
+            },
+            open: { $first: '$amount' },
+            close: { $last: '$amount' },
+            min: { $min: '$amount' },
+            max: { $max: '$amount' },
+            avg: { $avg: '$amount' },
+            count: { $sum: 1 },
+          },
+        },
+        { $set: { day: '$_id.day', currency: '$_id.currency' } },
+        { $unset: '_id' },
+        { $sort: { day: 1, currency: 1 } },
+      ])
+      .toArray();
+  }
+}
@@ -1,6 +1,7 @@
 import type { ExtractionStrategy, ProductExtractionResult } from '../types/product.types';
 import { FalabellaStrategy } from './extraction-strategies/falabella.strategy';
 import { GenericStrategy } from './extraction-strategies/generic.strategy';
+import { SITES } from '../config/sites';
 
 /**
  * ProductExtractorService
@@ -70,7 +71,15 @@ export class ProductExtractorService {
    * Find the appropriate strategy for the data
    */
   private findStrategy(data: any, url: string): ExtractionStrategy {
-    // Try registered strategies in order
+    // Strategies configured for the site come first, in configured order
+    for (const name of SITES.resolve(url)?.strategies || []) {
+      const strategy = this.strategies.find((s) => s.name === name);
+      if (strategy?.canHandle(data, url)) {
+        return strategy;
+      }
+    }
+
+    // Then try registered strategies in order (format auto-detection)
     for (const strategy of this.strategies) {
       if (strategy.canHandle(data, url)) {
         return strategy;
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeMongo, FakeCollection } from '../test/fake-mongo';
+import { OutboxService, OutboxWriteError } from './outbox.service';
+import { ProductStorageService } from './product-storage.service';
+import type { Product } from '../types/product.types';
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+/** A product as crawled by job `jobId` */
+function product(productId: string, amount: number, jobId: string, name?: string): Product {
+  const url = `https://example.com/p/${productId}`;
+  return {
+    productId,
+    name: name || `Product ${productId}`,
+    price: { amount, currency: 'PEN' },
+    media: { urls: [] },
+    availability: {},
+    source: { domain: 'falabella', url, scrapedAt: day(1), jobId },
+    seoUrl: `/p/${productId}`,
+    isSponsored: false,
+  };
+}
+
+describe('ProductStorageService.upsertProducts', () => {
+  let products: FakeCollection;
+  let storage: ProductStorageService;
+
+  beforeEach(() => {
+    const fake = fakeMongo({ products: ['uniqueKey'] });
+    products = fake.collection('products');
+    storage = new ProductStorageService(fake.mongo);
+  });
+
+  it('counts inserts and updates, folding repeats of a key into one write', async () => {
+    await storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) });
+
+    const stats = await storage.upsertProducts(
+      [product('a', 12, 'job-2'), product('b', 5, 'job-2'), product('b', 6, 'job-2')],
+      { observedAt: day(2) }
+    );
+
+    expect(stats).toEqual({ inserted: 1, updated: 2, errors: 0 });
+    expect(products.docs).toHaveLength(2);
+    const b = products.docs.find((doc) => doc.uniqueKey === 'falabella:b')!;
+    expect(b.price.amount).toBe(6);
+    expect(b.version).toBe(2);
+    const history: Array<{ price: { amount: number } }> = b.priceHistory;
+    expect(history.map((entry) => entry.price.amount)).toEqual([5, 6]);
+  });
+
+  it('reports the keys whose write failed without counting them', async () => {
+    await storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) });
+    // Another writer inserts b between our read and our write
+    const find = products.find.bind(products);
+    vi.spyOn(products, 'find').mockImplementationOnce((filter) => {
+      const cursor = find(filter);
+      const toArray = cursor.toArray.bind(cursor);
+      cursor.toArray = async () => {
+        const docs = await toArray();
+        products.docs.push({ uniqueKey: 'falabella:b' });
+        return docs;
+      };
+      return cursor;
+    });
+
+    const stats = await storage.upsertProducts(
+      [product('a', 11, 'job-2'), product('b', 5, 'job-2')],
+      { observedAt: day(2) }
+    );
+
+    expect(stats.inserted).toBe(0);
+    expect(stats.updated).toBe(1);
+    expect(stats.errors).toBe(1);
+    expect(stats.failures?.map((failure) => failure.uniqueKey)).toEqual(['falabella:b']);
+  });
+
+  it('only adds a backdated observation to the price history', async () => {
+    await storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) });
+    await storage.upsertProducts([product('a', 14, 'job-5')], { observedAt: day(5) });
+
+    const stats = await storage.upsertProducts([product('a', 12, 'job-3', 'Renamed')], {
+      observedAt: day(3),
+    });
+
+    const [stored] = products.docs;
+    expect(stats.updated).toBe(1);
+    expect(stored.name).toBe('Product a');
+    expect(stored.price.amount).toBe(14);
+    expect(stored.lastSeenAt).toEqual(day(5));
+    expect(stored.version).toBe(2);
+    expect(stored.priceHistory.map((entry: { recordedAt: Date }) => entry.recordedAt)).toEqual([
+      day(1),
+      day(3),
+      day(5),
+    ]);
+  });
+});
+
+describe('ProductStorageService domain events', () => {
+  let products: FakeCollection;
+  let outbox: FakeCollection;
+  let storage: ProductStorageService;
+
+  beforeEach(() => {
+    const fake = fakeMongo({ products: ['uniqueKey'], event_outbox: ['event.id'] });
+    products = fake.collection('products');
+    outbox = fake.collection('event_outbox');
+    storage = new ProductStorageService(
+      fake.mongo,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      new OutboxService(fake.mongo)
+    );
+  });
+
+  const eventTypes = () => outbox.docs.map((entry) => entry.event.type);
+
+  it('moves the events of a write to the outbox and off the record', async () => {
+    await storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) });
+    await storage.upsertProducts([product('a', 12, 'job-2')], { observedAt: day(2) });
+    // Backdated: fills in the history, no event
+    await storage.upsertProducts([product('a', 11, 'job-0')], { observedAt: day(0) });
+
+    expect(eventTypes()).toEqual(['product.created', 'product.price_changed']);
+    expect(outbox.docs[1].event.data.previousPrice).toEqual({ amount: 10, currency: 'PEN' });
+    expect(products.docs[0].pendingEvents).toBeUndefined();
+  });
+
+  it('keeps the events on the record when the outbox write fails', async () => {
+    outbox.failNext('insertMany');
+
+    await expect(
+      storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) })
+    ).rejects.toBeInstanceOf(OutboxWriteError);
+
+    expect(outbox.docs).toHaveLength(0);
+    expect(products.docs[0].price.amount).toBe(10);
+    const [pending] = products.docs[0].pendingEvents;
+    expect(pending.type).toBe('product.created');
+
+    expect(await storage.flushPendingEvents(10)).toBe(1);
+    expect(outbox.docs.map((entry) => entry.event.id)).toEqual([pending.id]);
+    expect(products.docs[0].pendingEvents).toBeUndefined();
+    expect(await storage.flushPendingEvents(10)).toBe(0);
+  });
+
+  it('stores an event once when taking it off the record failed', async () => {
+    products.failNext('updateMany');
+
+    await expect(
+      storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) })
+    ).rejects.toThrow('updateMany failed');
+    expect(outbox.docs).toHaveLength(1);
+    expect(products.docs[0].pendingEvents).toHaveLength(1);
+
+    await storage.flushPendingEvents(10);
+
+    expect(outbox.docs).toHaveLength(1);
+    expect(products.docs[0].pendingEvents).toBeUndefined();
+  });
+
+  it('keeps events raised after a failed move next to the earlier ones', async () => {
+    outbox.failNext('insertMany');
+    await expect(
+      storage.upsertProducts([product('a', 10, 'job-1')], { observedAt: day(1) })
+    ).rejects.toBeInstanceOf(OutboxWriteError);
+
+    await storage.upsertProducts([product('a', 12, 'job-2')], { observedAt: day(2) });
+    expect(eventTypes()).toEqual(['product.price_changed']);
+    expect(products.docs[0].pendingEvents).toHaveLength(1);
+
+    await storage.flushPendingEvents(10);
+    expect(eventTypes()).toEqual(['product.price_changed', 'product.created']);
+    expect(products.docs[0].pendingEvents).toBeUndefined();
+  });
+});
@@ -1,198 +1,486 @@
-import { MongoClient, Db, Collection } from 'mongodb';
-import { CONFIG } from '../config';
-import type { Product, StoredProduct, ProductPrice } from '../types/product.types';
+import { Collection, AnyBulkWriteOperation, Filter } from 'mongodb';
+import { changedFields } from '../utils/diff';
+import { runBulkWrite } from '../utils/bulk-write';
+import { CursorPage, fetchPage, SortSpec } from '../utils/cursor';
+import { insertBackdatedEntry, refreshesRecord } from '../utils/price-history';
+import { ChangeLogService } from './change-log.service';
+import { ProductVersionService } from './product-version.service';
+import { MongoConnectionService } from './mongo-connection.service';
+import { PriceObservationService } from './price-observation.service';
+import { FxRateService } from './fx-rate.service';
+import type { ProductChange, ProductWatchService } from './product-watch.service';
+import { createEvent, eventPrice, eventsByRecord, OutboxService } from './outbox.service';
+import type { PendingEventSource } from './event-publisher.service';
+import type {
+  ChangeLogEntry,
+  PriceObservation,
+  UpsertOptions,
+  UpsertPreview,
+  UpsertStats,
+} from '../types';
+import type { Product, StoredProduct, ProductPrice, ProductVersion } from '../types/product.types';
+import type { DomainEvent } from '../types/event.types';
+
+export interface ProductSearchQuery {
+  domain?: string;
+  brand?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Compare and sort prices on the FX-normalized amount in this currency
+  // instead of the raw (mixed-currency) price.amount
+  priceCurrency?: 'PEN' | 'USD';
+  // newest (default): first seen, newest first. recent (last seen) and the
+  // price sorts change as products are recrawled, so a product can move
+  // across pages while a client pages through them
+  sort?: 'newest' | 'recent' | 'price_asc' | 'price_desc';
+  textSearch?: string;
+  includeInactive?: boolean;
+  // Only products changed at or after this time (incremental exports)
+  updatedSince?: Date;
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+// Fields that differ on every crawl and say nothing about the product itself.
+const VOLATILE_FIELDS = ['source', 'rawData'];
 
 /**
  * ProductStorageService
  * Handles MongoDB operations for products with upsert logic and price history
  */
-export class ProductStorageService {
-  private client: MongoClient;
-  private db: Db | null = null;
-  private collection: Collection<StoredProduct> | null = null;
+export class ProductStorageService implements PendingEventSource {
+  private collection: Collection<StoredProduct>;
+
+  private changeLog: ChangeLogService | null;
+  private versions: ProductVersionService | null;
+  private prices: PriceObservationService | null;
+  private fx: FxRateService | null;
+  private watches: ProductWatchService | null;
+  private outbox: OutboxService | null;
+
+  constructor(
+    mongo: MongoConnectionService,
+    changeLog?: ChangeLogService,
+    versions?: ProductVersionService,
+    prices?: PriceObservationService,
+    fx?: FxRateService,
+    watches?: ProductWatchService,
+    outbox?: OutboxService
+  ) {
+    this.collection = mongo.collection('products');
+    this.changeLog = changeLog || null;
+    this.versions = versions || null;
+    this.prices = prices || null;
+    this.fx = fx || null;
+    this.watches = watches || null;
+    this.outbox = outbox || null;
+  }
 
-  constructor() {
-    this.client = new MongoClient(CONFIG.mongodb.uri);
+  /**
+   * Upsert a single product
+   */
+  async upsertProduct(product: Product, options: UpsertOptions = {}): Promise<void> {
+    const stats = await this.upsertProducts([product], options);
+    if (stats.failures?.length) {
+      const { uniqueKey, error } = stats.failures[0];
+      throw new Error(`Failed to upsert product ${uniqueKey}: ${error}`);
+    }
   }
 
-  async connect(): Promise<void> {
-    try {
-      await this.client.connect();
-      this.db = this.client.db(CONFIG.mongodb.database);
-      this.collection = this.db.collection<StoredProduct>('products');
+  /**
+   * Upsert multiple products in bulk.
+   * Existing docs are loaded with one query and every write goes out in a
+   * single unordered bulkWrite. A product repeated within the batch is
+   * applied on top of its earlier occurrence, as sequential upserts would.
+   * An observation older than the stored lastSeenAt (reprocessing another
+   * crawl than the stored values came from) leaves the current fields alone
+   * and only adds its price to the history, in chronological order, without
+   * a version, change log entry or watch check.
+   * Updated products are checked against watch rules, except for backdated
+   * observations. Creations and price changes are recorded as domain events,
+   * price changes only for observations newer than the stored lastSeenAt.
+   * Throws OutboxWriteError when the events cannot be moved to the outbox;
+   * the products are written by then and keep the events (pendingEvents)
+   * until flushPendingEvents moves them.
+   */
+  async upsertProducts(products: Product[], options: UpsertOptions = {}): Promise<UpsertStats> {
+    const stats: UpsertStats = { inserted: 0, updated: 0, errors: 0 };
+    if (products.length === 0) return stats;
+
+    const now = new Date();
+    const observedAt = options.observedAt || now;
+    const keys = products.map((p) => this.generateUniqueKey(p.source.domain, p.productId));
+
+    const existingDocs = await this.collection
+      .find({ uniqueKey: { $in: [...new Set(keys)] } })
+      .toArray();
+    const current = new Map<string, StoredProduct>(existingDocs.map((doc) => [doc.uniqueKey, doc]));
+    // lastSeenAt as stored before this batch; repeats within it share its time
+    const storedSeenAt = new Map(existingDocs.map((doc) => [doc.uniqueKey, doc.lastSeenAt]));
+    const fx = this.fx ? await this.fx.converter() : null;
+
+    // Fold the batch into one write per key: the full doc for new products,
+    // the accumulated $set for existing ones.
+    const inserts = new Map<string, StoredProduct>();
+    const updates = new Map<string, Partial<StoredProduct>>();
+    const counts = new Map<string, { inserted: number; updated: number }>();
+    const changeEntries: ChangeLogEntry[] = [];
+    const snapshots: ProductVersion[] = [];
+    const observations: PriceObservation[] = [];
+    const watched: ProductChange[] = [];
+    const events: DomainEvent[] = [];
+
+    products.forEach((product, i) => {
+      const uniqueKey = keys[i];
+      const previous = current.get(uniqueKey);
+      const count = counts.get(uniqueKey) || { inserted: 0, updated: 0 };
+      counts.set(uniqueKey, count);
+
+      const normalizedPrice =
+        fx && product.price?.amount != null
+          ? fx.normalize(product.price.amount, product.price.currency, observedAt)
+          : undefined;
+
+      if (product.price?.amount != null) {
+        observations.push({
+          observedAt,
+          meta: { uniqueKey, domain: product.source.domain, kind: 'product' },
+          amount: product.price.amount,
+          currency: product.price.currency,
+          ...(normalizedPrice?.amountPen != null && { amountPen: normalizedPrice.amountPen }),
+          ...(normalizedPrice?.amountUsd != null && { amountUsd: normalizedPrice.amountUsd }),
+          ...(product.source.jobId && { jobId: product.source.jobId }),
+        });
+      }
 
-      await this.createIndexes();
+      if (!previous) {
+        const storedProduct = this.buildNewProduct(product, uniqueKey, observedAt, now);
+        if (normalizedPrice) storedProduct.normalizedPrice = normalizedPrice;
+        inserts.set(uniqueKey, storedProduct);
+        current.set(uniqueKey, storedProduct);
+        if (this.versions) snapshots.push(this.versions.snapshot(storedProduct, observedAt, now));
+        events.push(
+          createEvent('product.created', observedAt, {
+            ...productRef(storedProduct),
+            name: storedProduct.name,
+            ...(storedProduct.brand && { brand: storedProduct.brand }),
+            ...(storedProduct.category && { category: storedProduct.category }),
+            price: eventPrice(storedProduct.price),
+            ...(normalizedPrice && { normalizedPrice }),
+          })
+        );
+        count.inserted++;
+        return;
+      }
+
+      const refreshed = refreshesRecord(previous, product, observedAt);
+      const changes = this.buildProductUpdate(previous, product, uniqueKey, observedAt, now);
+      if (normalizedPrice && refreshed) changes.normalizedPrice = normalizedPrice;
+      const seenAt = storedSeenAt.get(uniqueKey);
+      const newer = !seenAt || observedAt > seenAt;
+      if (newer && this.priceChanged(previous.price, product.price)) {
+        events.push(
+          createEvent('product.price_changed', observedAt, {
+            ...productRef({ ...product, uniqueKey }),
+            price: eventPrice(product.price),
+            previousPrice: eventPrice(previous.price),
+            ...(normalizedPrice && { normalizedPrice }),
+          })
+        );
+      }
+      count.updated++;
+      // A backdated price already in the history changes nothing
+      if (Object.keys(changes).length === 0) return;
+
+      current.set(uniqueKey, { ...previous, ...changes });
+      if (refreshed) {
+        const changeEntry = this.changeLog?.diff('product', uniqueKey, previous, product, observedAt);
+        if (changeEntry) changeEntries.push(changeEntry);
+        if (this.watches && !options.observedAt) {
+          watched.push({ uniqueKey, observedAt, previous, current: current.get(uniqueKey)! });
+        }
+        if (this.versions) snapshots.push(this.versions.snapshot(current.get(uniqueKey)!, observedAt, now));
+      }
+      if (inserts.has(uniqueKey)) {
+        inserts.set(uniqueKey, { ...previous, ...changes });
+      } else {
+        updates.set(uniqueKey, { ...updates.get(uniqueKey), ...changes });
+      }
+    });
 
-      console.log(`Connected to MongoDB products collection`);
+    const opKeys: string[] = [];
+    const operations: AnyBulkWriteOperation<StoredProduct>[] = [];
+    // Each write carries its events, so they outlive a failed outbox write
+    const pending = this.outbox ? eventsByRecord(events) : new Map<string, DomainEvent[]>();
+    for (const [uniqueKey, document] of inserts) {
+      const pendingEvents = pending.get(uniqueKey);
+      opKeys.push(uniqueKey);
+      operations.push({
+        insertOne: { document: pendingEvents ? { ...document, pendingEvents } : document },
+      });
+    }
+    for (const [uniqueKey, changes] of updates) {
+      const pendingEvents = pending.get(uniqueKey);
+      opKeys.push(uniqueKey);
+      operations.push({
+        updateOne: {
+          filter: { uniqueKey },
+          update: {
+            $set: changes,
+            ...(pendingEvents && { $push: { pendingEvents: { $each: pendingEvents } } }),
+          },
+        },
+      });
+    }
+
+    const failed = await runBulkWrite(this.collection, operations, opKeys);
+    await this.recordChanges(changeEntries.filter((entry) => !failed.has(entry.uniqueKey)));
+    await this.recordVersions(snapshots.filter((version) => !failed.has(version.uniqueKey)));
+    await this.recordPrices(observations.filter((o) => !failed.has(o.meta.uniqueKey)));
+    await this.recordEvents(events.filter((event) => !failed.has(event.data.uniqueKey)));
+    await this.raiseAlerts(watched.filter((change) => !failed.has(change.uniqueKey)));
+
+    for (const [uniqueKey, count] of counts) {
+      const error = failed.get(uniqueKey);
+      if (error) {
+        console.error(`Failed to upsert product ${uniqueKey}: ${error}`);
+        stats.errors += count.inserted + count.updated;
+        (stats.failures ||= []).push({ uniqueKey, error });
+      } else {
+        stats.inserted += count.inserted;
+        stats.updated += count.updated;
+      }
+    }
+
+    console.log(`Bulk upsert complete: ${stats.inserted} inserted, ${stats.updated} updated, ${stats.errors} errors`);
+
+    return stats;
+  }
+
+  /** Append field-level changes to the change log; never fails the upsert. */
+  private async recordChanges(entries: ChangeLogEntry[]): Promise<void> {
+    if (!this.changeLog || entries.length === 0) return;
+    try {
+      await this.changeLog.record(entries);
     } catch (error) {
-      console.error('Failed to connect to MongoDB:', error);
-      throw error;
+      console.error('Failed to record product changes:', error);
     }
   }
 
-  private async createIndexes(): Promise<void> {
-    if (!this.collection) return;
+  /** Store version snapshots; never fails the upsert. */
+  private async recordVersions(snapshots: ProductVersion[]): Promise<void> {
+    if (!this.versions || snapshots.length === 0) return;
+    try {
+      await this.versions.record(snapshots);
+    } catch (error) {
+      console.error('Failed to record product versions:', error);
+    }
+  }
 
+  /** Store price observations; never fails the upsert. */
+  private async recordPrices(observations: PriceObservation[]): Promise<void> {
+    if (!this.prices || observations.length === 0) return;
     try {
-      // Unique key for upsert (domain:productId)
-      await this.collection.createIndex({ uniqueKey: 1 }, { unique: true });
-      
-      // Query indexes
-      await this.collection.createIndex({ productId: 1 });
-      await this.collection.createIndex({ 'source.domain': 1 });
-      await this.collection.createIndex({ brand: 1 });
-      await this.collection.createIndex({ 'source.domain': 1, brand: 1 });
-      await this.collection.createIndex({ 'price.amount': 1 });
-      await this.collection.createIndex({ 'rating.value': -1 });
-      await this.collection.createIndex({ lastSeenAt: -1 });
-      await this.collection.createIndex({ lastUpdatedAt: -1 });
-      await this.collection.createIndex({ firstSeenAt: -1 });
-      
-      // Text search
-      await this.collection.createIndex({ name: 'text', brand: 'text' });
-      
-      console.log('MongoDB product indexes created');
+      await this.prices.record(observations);
     } catch (error) {
-      console.error('Failed to create indexes:', error);
+      console.error('Failed to record product price observations:', error);
     }
   }
 
   /**
-   * Upsert a single product
+   * Move the events written onto the records to the outbox. A failure fails
+   * the upsert; the events stay on the records until flushPendingEvents.
    */
-  async upsertProduct(product: Product): Promise<void> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
+  private async recordEvents(events: DomainEvent[]): Promise<void> {
+    if (!this.outbox || events.length === 0) return;
+    await this.outbox.moveFromRecords(this.collection, events);
+  }
 
-    const uniqueKey = this.generateUniqueKey(product.source.domain, product.productId);
+  /** Move events left on products by a failed outbox write; returns records handled. */
+  async flushPendingEvents(limit: number): Promise<number> {
+    if (!this.outbox) return 0;
+    return this.outbox.flushPending(this.collection, limit);
+  }
 
+  /** Check updated products against watch rules; never fails the upsert. */
+  private async raiseAlerts(changes: ProductChange[]): Promise<void> {
+    if (!this.watches || changes.length === 0) return;
     try {
-      const existing = await this.collection.findOne({ uniqueKey });
-      const now = new Date();
-
-      if (existing) {
-        // Update existing product
-        const updates: Partial<StoredProduct> = {
-          ...product,
-          uniqueKey,
-          lastSeenAt: now,
-          lastUpdatedAt: now,
-          version: existing.version + 1,
-          priceHistory: existing.priceHistory || [],
-          firstSeenAt: existing.firstSeenAt,
-        };
-
-        // Add to price history if price changed
-        if (this.priceChanged(existing.price, product.price)) {
-          updates.priceHistory = [
-            ...existing.priceHistory,
-            {
-              price: product.price,
-              recordedAt: now,
-            },
-          ];
-
-          // Keep only last 100 price history entries
-          if (updates.priceHistory.length > 100) {
-            updates.priceHistory = updates.priceHistory.slice(-100);
-          }
-        }
+      await this.watches.evaluate(changes);
+    } catch (error) {
+      console.error('Failed to evaluate product watch rules:', error);
+    }
+  }
 
-        await this.collection.updateOne({ uniqueKey }, { $set: updates });
+  /** Stored form of a product seen for the first time. */
+  private buildNewProduct(
+    product: Product,
+    uniqueKey: string,
+    observedAt: Date,
+    now: Date
+  ): StoredProduct {
+    return {
+      ...product,
+      uniqueKey,
+      firstSeenAt: observedAt,
+      lastSeenAt: observedAt,
+      lastUpdatedAt: now,
+      active: true,
+      version: 1,
+      priceHistory: [
+        {
+          price: product.price,
+          recordedAt: observedAt,
+        },
+      ],
+    };
+  }
 
-        console.log(`Updated product: ${uniqueKey}`);
-      } else {
-        // Insert new product
-        const storedProduct: StoredProduct = {
-          ...product,
-          uniqueKey,
-          firstSeenAt: now,
-          lastSeenAt: now,
-          lastUpdatedAt: now,
-          version: 1,
-          priceHistory: [
-            {
-              price: product.price,
-              recordedAt: now,
-            },
-          ],
-        };
+  /**
+   * Fields to $set when a product is seen again: refreshed values, bumped
+   * version, preserved firstSeenAt, and a price-history entry on change.
+   * A newer observation also reactivates a delisted product; an older one
+   * from another crawl only places its price in the history (nothing when
+   * already there).
+   */
+  private buildProductUpdate(
+    existing: StoredProduct,
+    product: Product,
+    uniqueKey: string,
+    observedAt: Date,
+    now: Date
+  ): Partial<StoredProduct> {
+    if (!refreshesRecord(existing, product, observedAt)) {
+      const priceHistory = insertBackdatedEntry(
+        existing.priceHistory || [],
+        { price: product.price, recordedAt: observedAt },
+        (entry) => entry.recordedAt,
+        (a, b) => !this.priceChanged(a.price, b.price)
+      );
+      return priceHistory ? { priceHistory: priceHistory.slice(-100), lastUpdatedAt: now } : {};
+    }
 
-        await this.collection.insertOne(storedProduct);
+    const updates: Partial<StoredProduct> = {
+      ...product,
+      uniqueKey,
+      lastUpdatedAt: now,
+      ...(observedAt > existing.lastSeenAt
+        ? { lastSeenAt: observedAt, active: true, delistedAt: undefined }
+        : { lastSeenAt: existing.lastSeenAt }),
+      version: existing.version + 1,
+      priceHistory: existing.priceHistory || [],
+      firstSeenAt: existing.firstSeenAt,
+    };
+
+    // Add to price history if price changed
+    if (this.priceChanged(existing.price, product.price)) {
+      updates.priceHistory = [
+        ...(existing.priceHistory || []),
+        {
+          price: product.price,
+          recordedAt: observedAt,
+        },
+      ];
 
-        console.log(`Inserted new product: ${uniqueKey}`);
+      // Keep only last 100 price history entries
+      if (updates.priceHistory.length > 100) {
+        updates.priceHistory = updates.priceHistory.slice(-100);
       }
-    } catch (error) {
-      console.error(`Failed to upsert product ${uniqueKey}:`, error);
-      throw error;
     }
+
+    return updates;
   }
 
   /**
-   * Upsert multiple products in bulk
+   * Report what upsertProducts would do, without writing anything. The
+   * same rules apply (an older observation only adds to priceHistory), and
+   * the records as previewed are kept in `state`, so a later call sees them.
    */
-  async upsertProducts(products: Product[]): Promise<{
-    inserted: number;
-    updated: number;
-    errors: number;
-  }> {
-    let inserted = 0;
-    let updated = 0;
-    let errors = 0;
-
-    for (const product of products) {
-      try {
-        const uniqueKey = this.generateUniqueKey(product.source.domain, product.productId);
-        const existing = await this.collection?.findOne({ uniqueKey });
-
-        await this.upsertProduct(product);
-
-        if (existing) {
-          updated++;
-        } else {
-          inserted++;
-        }
-      } catch (error) {
-        console.error('Error upserting product:', error);
-        errors++;
-      }
+  async previewProducts(
+    products: Product[],
+    options: UpsertOptions & { state?: Map<string, StoredProduct> } = {}
+  ): Promise<UpsertPreview[]> {
+    const now = new Date();
+    const observedAt = options.observedAt || now;
+    const current = options.state || new Map<string, StoredProduct>();
+    const keys = products.map((p) => this.generateUniqueKey(p.source.domain, p.productId));
+    const missing = [...new Set(keys)].filter((key) => !current.has(key));
+    if (missing.length > 0) {
+      const existingDocs = await this.collection.find({ uniqueKey: { $in: missing } }).toArray();
+      existingDocs.forEach((doc) => current.set(doc.uniqueKey, doc));
     }
 
-    console.log(`Bulk upsert complete: ${inserted} inserted, ${updated} updated, ${errors} errors`);
+    return products.map((product, i): UpsertPreview => {
+      const uniqueKey = keys[i];
+      const previous = current.get(uniqueKey);
+      if (!previous) {
+        current.set(uniqueKey, this.buildNewProduct(product, uniqueKey, observedAt, now));
+        return { uniqueKey, action: 'insert', priceChanged: false, changedFields: [] };
+      }
 
-    return { inserted, updated, errors };
+      const refreshed = refreshesRecord(previous, product, observedAt);
+      const changes = this.buildProductUpdate(previous, product, uniqueKey, observedAt, now);
+      current.set(uniqueKey, { ...previous, ...changes });
+      if (!refreshed) {
+        return {
+          uniqueKey,
+          action: 'update',
+          priceChanged: false,
+          changedFields: changes.priceHistory ? ['priceHistory'] : [],
+        };
+      }
+      return {
+        uniqueKey,
+        action: 'update',
+        priceChanged: this.priceChanged(previous.price, product.price),
+        changedFields: changedFields(previous, product, VOLATILE_FIELDS),
+      };
+    });
   }
 
   /**
    * Get product by unique key
    */
   async getProduct(domain: string, productId: string): Promise<StoredProduct | null> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
-
     const uniqueKey = this.generateUniqueKey(domain, productId);
     return this.collection.findOne({ uniqueKey });
   }
 
   /**
-   * Search products
+   * Search products, one page at a time (keyset pagination on the sort key
+   * plus _id, so pages stay cheap and do not shift as docs are inserted)
    */
-  async searchProducts(query: {
-    domain?: string;
-    brand?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    textSearch?: string;
-    limit?: number;
-    skip?: number;
-  }): Promise<StoredProduct[]> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
+  async searchProducts(query: ProductSearchQuery): Promise<CursorPage<StoredProduct>> {
+    const filter = this.buildSearchFilter(query);
+    const sort = this.buildSort(query);
+    return fetchPage(sort, { cursor: query.cursor, limit: query.limit || 50 }, (after, limit) =>
+      this.collection
+        .find(after ? ({ $and: [filter, after] } as Filter<StoredProduct>) : filter)
+        .sort(sort)
+        .limit(limit)
+        .toArray()
+    );
+  }
+
+  /**
+   * Stream every product matching a search, least recently updated first
+   * (ignores limit/cursor/sort). Used by exports.
+   */
+  async *streamProducts(query: ProductSearchQuery): AsyncGenerator<StoredProduct> {
+    yield* this.collection.find(this.buildSearchFilter(query)).sort({ lastUpdatedAt: 1, _id: 1 });
+  }
 
-    const filter: any = {};
+  /**
+   * Number of products matching a search (ignores limit/cursor)
+   */
+  async countProducts(query: ProductSearchQuery): Promise<number> {
+    return this.collection.countDocuments(this.buildSearchFilter(query));
+  }
+
+  private buildSearchFilter(query: ProductSearchQuery): Filter<StoredProduct> {
+    // Delisted products are hidden unless explicitly requested
+    const filter: any = query.includeInactive ? {} : { active: true };
 
     if (query.domain) {
       filter['source.domain'] = query.domain;
@@ -203,12 +491,13 @@ export class ProductStorageService {
     }
 
     if (query.minPrice !== undefined || query.maxPrice !== undefined) {
-      filter['price.amount'] = {};
+      const priceField = this.priceField(query);
+      filter[priceField] = {};
       if (query.minPrice !== undefined) {
-        filter['price.amount'].$gte = query.minPrice;
+        filter[priceField].$gte = query.minPrice;
       }
       if (query.maxPrice !== undefined) {
-        filter['price.amount'].$lte = query.maxPrice;
+        filter[priceField].$lte = query.maxPrice;
       }
     }
 
@@ -216,30 +505,85 @@ export class ProductStorageService {
       filter.$text = { $search: query.textSearch };
     }
 
-    return this.collection
-      .find(filter)
-      .sort({ lastSeenAt: -1 })
-      .limit(query.limit || 50)
-      .skip(query.skip || 0)
-      .toArray();
+    if (query.updatedSince) {
+      filter.lastUpdatedAt = { $gte: query.updatedSince };
+    }
+
+    return filter;
+  }
+
+  private buildSort(query: ProductSearchQuery): SortSpec {
+    switch (query.sort) {
+      case 'recent':
+        return { lastSeenAt: -1, _id: 1 };
+      case 'price_asc':
+        return { [this.priceField(query)]: 1, _id: 1 };
+      case 'price_desc':
+        return { [this.priceField(query)]: -1, _id: 1 };
+      default:
+        return { firstSeenAt: -1, _id: 1 };
+    }
+  }
+
+  private priceField(query: ProductSearchQuery): string {
+    if (!query.priceCurrency) return 'price.amount';
+    return `normalizedPrice.amount${query.priceCurrency === 'PEN' ? 'Pen' : 'Usd'}`;
   }
 
   /**
-   * Get statistics
+   * Mark products not seen within their stale window as inactive (out of
+   * catalog). `byDomain` overrides the default window (hours) per
+   * source.domain. Returns the number of newly delisted docs.
    */
-  async getStats(): Promise<{
+  async markStaleProductsInactive(
+    defaultHours: number,
+    byDomain: Record<string, number> = {}
+  ): Promise<number> {
+    const now = Date.now();
+    const cutoff = (hours: number) => new Date(now - hours * 60 * 60 * 1000);
+    const sweeps = [
+      ...Object.entries(byDomain).map(([domain, hours]) => ({
+        filter: { 'source.domain': domain },
+        cutoff: cutoff(hours),
+      })),
+      {
+        filter: { 'source.domain': { $nin: Object.keys(byDomain) } },
+        cutoff: cutoff(defaultHours),
+      },
+    ];
+
+    let delisted = 0;
+    for (const sweep of sweeps) {
+      const result = await this.collection.updateMany(
+        { ...sweep.filter, active: true, lastSeenAt: { $lt: sweep.cutoff } },
+        { $set: { active: false, delistedAt: new Date() } }
+      );
+      delisted += result.modifiedCount;
+    }
+
+    if (delisted > 0) {
+      console.log(`Marked ${delisted} stale product(s) as inactive`);
+    }
+    return delisted;
+  }
+
+  /**
+   * Get statistics (active products only unless `includeInactive`)
+   */
+  async getStats(options: { includeInactive?: boolean } = {}): Promise<{
     totalProducts: number;
+    delistedProducts: number;
     byDomain: Record<string, number>;
     byBrand: Record<string, number>;
   }> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
+    const activeFilter = options.includeInactive ? {} : { active: true };
 
-    const totalProducts = await this.collection.countDocuments();
+    const totalProducts = await this.collection.countDocuments(activeFilter);
+    const delistedProducts = await this.collection.countDocuments({ active: false });
 
     const domainStats = await this.collection
       .aggregate([
+        { $match: activeFilter },
         {
           $group: {
             _id: '$source.domain',
@@ -252,7 +596,7 @@ export class ProductStorageService {
     const brandStats = await this.collection
       .aggregate([
         {
-          $match: { brand: { $exists: true, $ne: null } },
+          $match: { ...activeFilter, brand: { $exists: true, $ne: null } },
         },
         {
           $group: {
@@ -279,16 +623,7 @@ export class ProductStorageService {
       byBrand[stat._id] = stat.count;
     });
 
-    return { totalProducts, byDomain, byBrand };
-  }
-
-  async close(): Promise<void> {
-    if (this.client) {
-      await this.client.close();
-      this.db = null;
-      this.collection = null;
-      console.log('MongoDB product connection closed');
-    }
+    return { totalProducts, delistedProducts, byDomain, byBrand };
   }
 
   /**
@@ -308,3 +643,12 @@ export class ProductStorageService {
     );
   }
 }
+
+function productRef(product: Pick<StoredProduct, 'uniqueKey' | 'productId' | 'source'>) {
+  return {
+    uniqueKey: product.uniqueKey,
+    domain: product.source.domain,
+    productId: product.productId,
+    url: product.source.url,
+  };
+}
@@ -0,0 +1,101 @@
+import { Collection, Filter, MongoBulkWriteError } from 'mongodb';
+import { CONFIG } from '../config';
+import { CursorPage, fetchPage, SortSpec } from '../utils/cursor';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { ProductVersion, StoredProduct } from '../types/product.types';
+
+const VERSION_SORT: SortSpec = { version: -1, _id: 1 };
+
+export type VersionSummary = Pick<ProductVersion, 'version' | 'observedAt' | 'recordedAt'>;
+
+/**
+ * ProductVersionService
+ * Keeps a snapshot of every StoredProduct version in product_versions, so
+ * `version` can be audited and a product read back as it was.
+ */
+export class ProductVersionService {
+  private collection: Collection<ProductVersion>;
+
+  constructor(mongo: MongoConnectionService) {
+    this.collection = mongo.collection('product_versions');
+  }
+
+  /**
+   * Build the snapshot for a product state; rawData is dropped unless
+   * PRODUCT_VERSIONS_INCLUDE_RAW_DATA is set.
+   */
+  snapshot(product: StoredProduct, observedAt: Date, recordedAt: Date): ProductVersion {
+    const { _id, rawData, pendingEvents, ...rest } = product;
+    return {
+      uniqueKey: product.uniqueKey,
+      version: product.version,
+      observedAt,
+      recordedAt,
+      snapshot: CONFIG.productVersions.includeRawData && rawData !== undefined
+        ? { ...rest, rawData }
+        : rest,
+    };
+  }
+
+  /**
+   * Store snapshots. A version that already exists (e.g. a retried write)
+   * is left untouched.
+   */
+  async record(versions: ProductVersion[]): Promise<void> {
+    if (versions.length === 0) return;
+
+    try {
+      await this.collection.insertMany(versions, { ordered: false });
+    } catch (error) {
+      const duplicatesOnly =
+        error instanceof MongoBulkWriteError &&
+        (Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors]).every(
+          (e) => e.code === 11000
+        );
+      if (!duplicatesOnly) throw error;
+    }
+  }
+
+  /**
+   * Product as it was at a given version
+   */
+  async getVersion(uniqueKey: string, version: number): Promise<ProductVersion | null> {
+    return this.collection.findOne({ uniqueKey, version });
+  }
+
+  /**
+   * Product as stored at a given date: the latest version written at or
+   * before `date`, or null if the product did not exist yet.
+   */
+  async getAsOf(uniqueKey: string, date: Date): Promise<ProductVersion | null> {
+    return this.collection.findOne(
+      { uniqueKey, recordedAt: { $lte: date } },
+      { sort: { recordedAt: -1, version: -1 } }
+    );
+  }
+
+  /**
+   * Version list of a product (without snapshots), newest first, one page
+   * at a time
+   */
+  async listVersions(
+    uniqueKey: string,
+    page: { cursor?: string; limit?: number } = {}
+  ): Promise<CursorPage<VersionSummary>> {
+    const filter: Filter<ProductVersion> = { uniqueKey };
+    const result = await fetchPage(
+      VERSION_SORT,
+      { cursor: page.cursor, limit: page.limit || 100 },
+      (after, limit) =>
+        this.collection
+          .find<VersionSummary & { _id: unknown }>(
+            after ? ({ $and: [filter, after] } as Filter<ProductVersion>) : filter,
+            { projection: { version: 1, observedAt: 1, recordedAt: 1 } }
+          )
+          .sort(VERSION_SORT)
+          .limit(limit)
+          .toArray()
+    );
+    return { ...result, items: result.items.map(({ _id, ...version }) => version) };
+  }
+}
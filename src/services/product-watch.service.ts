@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { AnyBulkWriteOperation, Collection, Filter } from 'mongodb';
+import { CursorPage, fetchPage, stableSort } from '../utils/cursor';
+import { MongoConnectionService } from './mongo-connection.service';
+import { deliverAlerts, type AlertNotifier } from './alert-notifier.service';
+import type { PendingAlertSource } from './alert-dispatcher.service';
+import type {
+  ProductAlert,
+  ProductAlertKind,
+  ProductAvailability,
+  ProductPrice,
+  ProductWatchRule,
+  StoredProduct,
+} from '../types/product.types';
+
+/** An existing product updated by upsertProducts, before and after the write */
+export interface ProductChange {
+  uniqueKey: string;
+  observedAt: Date;
+  previous: StoredProduct;
+  current: StoredProduct;
+}
+
+export type ProductWatchInput = Omit<
+  ProductWatchRule,
+  'id' | 'active' | 'createdAt' | 'updatedAt'
+>;
+
+const ALERTS_SORT = stableSort({ createdAt: -1 });
+
+/**
+ * ProductWatchService
+ * Stores product watch rules and, for each batch of updated products,
+ * records an alert in product_alerts for every condition a rule sees met
+ * (price drop, price below a threshold, back in stock). New alerts are
+ * pending until AlertDispatcherService calls deliverPending.
+ *
+ * After an alert, the same rule, product and kind stay quiet for the
+ * rule's cooldown, so a flapping price or stock flag alerts once. A price
+ * lower than the one last alerted still gets through.
+ */
+export class ProductWatchService implements PendingAlertSource {
+  private rules: Collection<ProductWatchRule>;
+  private alerts: Collection<ProductAlert>;
+  private notifiers: AlertNotifier[];
+
+  constructor(mongo: MongoConnectionService, notifiers: AlertNotifier[] = []) {
+    this.rules = mongo.collection('product_watches');
+    this.alerts = mongo.collection('product_alerts');
+    this.notifiers = notifiers;
+  }
+
+  notifierNames(): string[] {
+    return this.notifiers.map((notifier) => notifier.name);
+  }
+
+  async create(input: ProductWatchInput): Promise<ProductWatchRule> {
+    const { notifiers, ...fields } = input;
+    const now = new Date();
+    const rule: ProductWatchRule = {
+      ...fields,
+      ...(notifiers && { notifiers }),
+      id: randomUUID(),
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.rules.insertOne({ ...rule });
+    return rule;
+  }
+
+  async list(): Promise<ProductWatchRule[]> {
+    return this.rules.find({}, { projection: { _id: 0 } }).sort({ createdAt: 1 }).toArray();
+  }
+
+  async get(id: string): Promise<ProductWatchRule | null> {
+    return this.rules.findOne({ id }, { projection: { _id: 0 } });
+  }
+
+  /** Delete a watch rule; its alerts are kept. */
+  async remove(id: string): Promise<boolean> {
+    const result = await this.rules.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+
+  /** Alerts, newest first, optionally for one rule */
+  async listAlerts(
+    ruleId?: string,
+    page: { cursor?: string; limit?: number } = {}
+  ): Promise<CursorPage<ProductAlert>> {
+    const filter: Filter<ProductAlert> = ruleId ? { ruleId } : {};
+    return fetchPage(ALERTS_SORT, { cursor: page.cursor, limit: page.limit || 50 }, (after, limit) =>
+      this.alerts
+        .find(after ? ({ $and: [filter, after] } as Filter<ProductAlert>) : filter)
+        .sort(ALERTS_SORT)
+        .limit(limit)
+        .toArray()
+    );
+  }
+
+  /**
+   * Check updated products against every active rule and record the alerts
+   * not held back by a cooldown, pending delivery. Returns the number of
+   * new alerts.
+   */
+  async evaluate(changes: ProductChange[]): Promise<number> {
+    if (changes.length === 0) return 0;
+    const rules = await this.rules.find({ active: true }).toArray();
+    if (rules.length === 0) return 0;
+
+    const now = new Date();
+    const candidates: Array<{ rule: ProductWatchRule; alert: ProductAlert }> = [];
+    for (const change of changes) {
+      for (const rule of rules) {
+        if (!appliesTo(rule, change.current)) continue;
+        for (const met of conditionsMet(rule, change)) {
+          candidates.push({ rule, alert: buildAlert(rule, change, met, now) });
+        }
+      }
+    }
+    if (candidates.length === 0) return 0;
+
+    const last = await this.lastAlerts(candidates, now);
+    const alerts: ProductAlert[] = [];
+    for (const { rule, alert } of candidates) {
+      const key = dedupeKey(alert);
+      if (withinCooldown(alert, last.get(key), rule)) continue;
+      last.set(key, alert);
+      alerts.push(alert);
+    }
+    const suppressed = candidates.length - alerts.length;
+    if (suppressed > 0) console.log(`${suppressed} product alert(s) held back by cooldown`);
+
+    const created = await this.insertAlerts(alerts);
+    if (created > 0) console.log(`✓ ${created} new product alert(s)`);
+    return created;
+  }
+
+  /**
+   * Hand up to `limit` pending alerts, oldest first, to the notifiers of
+   * their rule (all of them once the rule is deleted) and clear their
+   * pending flag. Returns the number handled.
+   */
+  async deliverPending(limit: number): Promise<number> {
+    const pending = await this.alerts
+      .find({ pendingDelivery: true })
+      .sort({ _id: 1 })
+      .limit(limit)
+      .toArray();
+    if (pending.length === 0) return 0;
+
+    const ruleIds = [...new Set(pending.map((alert) => alert.ruleId))];
+    const rules = await this.rules.find({ id: { $in: ruleIds } }).toArray();
+    const subscribed = new Map(rules.map((rule) => [rule.id, rule.notifiers]));
+    await deliverAlerts(
+      this.notifiers,
+      this.alerts,
+      pending.map(({ _id, pendingDelivery, ...alert }) => ({ _id, alert })),
+      (alert) => subscribed.get(alert.ruleId)
+    );
+
+    await this.alerts.updateMany(
+      { _id: { $in: pending.map((alert) => alert._id) } },
+      { $unset: { pendingDelivery: '' } }
+    );
+    return pending.length;
+  }
+
+  /** Latest alert per rule, product and kind still within the longest cooldown */
+  private async lastAlerts(
+    candidates: Array<{ rule: ProductWatchRule; alert: ProductAlert }>,
+    now: Date
+  ): Promise<Map<string, ProductAlert>> {
+    const longest = Math.max(...candidates.map(({ rule }) => rule.cooldownMinutes));
+    const last = new Map<string, ProductAlert>();
+    if (longest <= 0) return last;
+
+    const recent = await this.alerts
+      .find({
+        ruleId: { $in: [...new Set(candidates.map(({ rule }) => rule.id))] },
+        uniqueKey: { $in: [...new Set(candidates.map(({ alert }) => alert.uniqueKey))] },
+        createdAt: { $gte: new Date(now.getTime() - longest * 60_000) },
+      })
+      .sort({ createdAt: 1 })
+      .toArray();
+    for (const alert of recent) last.set(dedupeKey(alert), alert);
+    return last;
+  }
+
+  /** Insert alerts not recorded yet; returns how many were new. */
+  private async insertAlerts(alerts: ProductAlert[]): Promise<number> {
+    if (alerts.length === 0) return 0;
+    const operations: AnyBulkWriteOperation<ProductAlert>[] = alerts.map((alert) => ({
+      updateOne: {
+        filter: {
+          ruleId: alert.ruleId,
+          uniqueKey: alert.uniqueKey,
+          kind: alert.kind,
+          observedAt: alert.observedAt,
+        },
+        update: { $setOnInsert: alert },
+        upsert: true,
+      },
+    }));
+    const result = await this.alerts.bulkWrite(operations, { ordered: false });
+    return result.upsertedCount;
+  }
+}
+
+function appliesTo(rule: ProductWatchRule, product: StoredProduct): boolean {
+  const { uniqueKey, brand, domain } = rule.match;
+  return (
+    (!uniqueKey || product.uniqueKey === uniqueKey) &&
+    (!brand || product.brand === brand) &&
+    (!domain || product.source.domain === domain)
+  );
+}
+
+function conditionsMet(
+  rule: ProductWatchRule,
+  { previous, current }: ProductChange
+): Array<{ kind: ProductAlertKind; dropPercent?: number }> {
+  const met: Array<{ kind: ProductAlertKind; dropPercent?: number }> = [];
+
+  if (rule.priceDropPercent != null) {
+    const drop = dropPercent(previous, current);
+    // An unchanged price is never a drop, even for a 0% threshold
+    if (drop !== null && drop > 0 && drop >= rule.priceDropPercent) {
+      met.push({ kind: 'price_drop', dropPercent: Math.round(drop * 100) / 100 });
+    }
+  }
+
+  if (rule.priceBelow != null) {
+    const before = comparablePrice(previous, rule.priceCurrency);
+    const after = comparablePrice(current, rule.priceCurrency);
+    // Only the crossing alerts, not every observation below the threshold
+    const crossed = before === null || before >= rule.priceBelow;
+    if (after !== null && after < rule.priceBelow && crossed) {
+      met.push({ kind: 'price_below' });
+    }
+  }
+
+  const restocked = !isAvailable(previous.availability) && isAvailable(current.availability);
+  if (rule.backInStock && restocked) {
+    met.push({ kind: 'back_in_stock' });
+  }
+
+  return met;
+}
+
+/** Percentage the price fell by; null when the two prices cannot be compared */
+function dropPercent(previous: StoredProduct, current: StoredProduct): number | null {
+  let before: number | undefined = previous.price?.amount;
+  let after: number | undefined = current.price?.amount;
+  if (previous.price?.currency !== current.price?.currency) {
+    before = previous.normalizedPrice?.amountPen;
+    after = current.normalizedPrice?.amountPen;
+  }
+  if (before == null || after == null || before <= 0) return null;
+  return ((before - after) / before) * 100;
+}
+
+function comparablePrice(product: StoredProduct, currency?: 'PEN' | 'USD'): number | null {
+  if (!currency) return product.price?.amount ?? null;
+  const normalized = product.normalizedPrice;
+  return (currency === 'PEN' ? normalized?.amountPen : normalized?.amountUsd) ?? null;
+}
+
+function isAvailable(availability: ProductAvailability | undefined): boolean {
+  return Boolean(availability?.homeDelivery || availability?.pickUpFromStore);
+}
+
+function buildAlert(
+  rule: ProductWatchRule,
+  { uniqueKey, observedAt, previous, current }: ProductChange,
+  met: { kind: ProductAlertKind; dropPercent?: number },
+  now: Date
+): ProductAlert {
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    uniqueKey,
+    kind: met.kind,
+    observedAt,
+    product: {
+      name: current.name,
+      url: current.source.url,
+      domain: current.source.domain,
+      ...(current.brand && { brand: current.brand }),
+      price: current.price,
+      ...(current.normalizedPrice && { normalizedPrice: current.normalizedPrice }),
+      availability: current.availability,
+    },
+    ...(met.kind !== 'back_in_stock' && { previousPrice: previous.price }),
+    ...(met.dropPercent !== undefined && { dropPercent: met.dropPercent }),
+    createdAt: now,
+    pendingDelivery: true,
+    deliveries: {},
+  };
+}
+
+function dedupeKey(alert: ProductAlert): string {
+  return `${alert.ruleId}|${alert.uniqueKey}|${alert.kind}`;
+}
+
+function withinCooldown(
+  alert: ProductAlert,
+  last: ProductAlert | undefined,
+  rule: ProductWatchRule
+): boolean {
+  if (!last) return false;
+  if (alert.createdAt.getTime() - last.createdAt.getTime() >= rule.cooldownMinutes * 60_000) {
+    return false;
+  }
+  return !(alert.kind !== 'back_in_stock' && isLower(alert.product.price, last.product.price));
+}
+
+function isLower(price: ProductPrice, than: ProductPrice): boolean {
+  return price.currency === than.currency && price.amount < than.amount;
+}
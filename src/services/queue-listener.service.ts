@@ -1,31 +1,20 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Job, Queue, QueueEvents } from 'bullmq';
 import { CONFIG } from '../config';
 import { StorageService } from './storage.service';
-import { ProductExtractorService } from './product-extractor.service';
-import { ProductStorageService } from './product-storage.service';
-import { RealEstateExtractorService } from './real-estate-extractor.service';
-import { RealEstateStorageService } from './real-estate-storage.service';
+import { ResultProcessorService } from './result-processor.service';
 import type { FetchResult } from '../types';
 
 export class QueueListenerService {
   private queue: Queue;
   private queueEvents: QueueEvents;
   private storageService: StorageService;
-  private productExtractor: ProductExtractorService;
-  private productStorage: ProductStorageService;
-  private realEstateExtractor: RealEstateExtractorService;
-  private realEstateStorage: RealEstateStorageService;
-
-  constructor(
-    storageService: StorageService,
-    productStorage?: ProductStorageService,
-    realEstateStorage?: RealEstateStorageService
-  ) {
+  private processor: ResultProcessorService;
+  private inFlight = new Set<string>();
+  private catchUpTimer: NodeJS.Timeout | null = null;
+
+  constructor(storageService: StorageService, processor: ResultProcessorService) {
     this.storageService = storageService;
-    this.productExtractor = new ProductExtractorService();
-    this.productStorage = productStorage || new ProductStorageService();
-    this.realEstateExtractor = new RealEstateExtractorService();
-    this.realEstateStorage = realEstateStorage || new RealEstateStorageService();
+    this.processor = processor;
 
     this.queue = new Queue(CONFIG.queue.name, {
       connection: {
@@ -47,230 +36,205 @@ export class QueueListenerService {
 
     // Listen for completed jobs
     this.queueEvents.on('completed', async ({ jobId, returnvalue }) => {
-      try {
-        console.log(`Job ${jobId} completed, saving to MongoDB...`);
-
-        const result = returnvalue as unknown as FetchResult;
-        await this.storageService.saveResult(result, 'completed');
-
-        console.log(`Successfully stored job ${jobId}`);
-
-        // Determine if this is a real estate site or product site
-        // Check both URL and extract domain from URL for matching
-        const isRealEstate = this.realEstateExtractor.isRealEstateSite(result.url) || 
-                             this.isRealEstateDomain(result.url);
-        
-        if (isRealEstate) {
-          await this.extractAndSaveRealEstate(result);
-        } else {
-          await this.extractAndSaveProducts(result);
-        }
-
-        // Clean up the job from Redis after successful processing
-        const job = await this.queue.getJob(jobId);
-        if (job) {
-          await job.remove();
-          console.log(`Job ${jobId} removed from queue`);
-        }
-      } catch (error) {
-        console.error(`Failed to store job ${jobId}:`, error);
-      }
+      await this.handleCompleted(jobId, returnvalue as unknown as FetchResult);
     });
 
     // Listen for failed jobs and save them with error information
     this.queueEvents.on('failed', async ({ jobId, failedReason }) => {
-      try {
-        console.log(`Job ${jobId} failed: ${failedReason}`);
-
-        // Get the job data to extract URL
-        const job = await this.queue.getJob(jobId);
-        if (job && job.data) {
-          const { url } = job.data;
-
-          // Create a minimal FetchResult for failed jobs
-          const failedResult: FetchResult = {
-            jobId,
-            url,
-            html: '',
-            fetchedAt: new Date(),
-          };
-
-          await this.storageService.saveResult(failedResult, 'failed', failedReason);
-          console.log(`Saved failed job ${jobId} to MongoDB`);
-
-          // Clean up the job from Redis after recording the failure
-          await job.remove();
-          console.log(`Failed job ${jobId} removed from queue`);
-        }
-      } catch (error) {
-        console.error(`Failed to store failed job ${jobId}:`, error);
-      }
+      await this.handleFailed(jobId, failedReason);
     });
 
     this.queueEvents.on('error', (error) => {
       console.error('Queue events error:', error);
     });
+
+    // QueueEvents is fire-and-forget: anything that finished while we were
+    // down is still sitting in Redis, so drain it before relying on events.
+    await this.catchUp();
+
+    if (CONFIG.queue.catchUpIntervalMinutes > 0) {
+      this.catchUpTimer = setInterval(() => {
+        this.catchUp().catch((error) => console.error('Queue catch-up failed:', error));
+      }, CONFIG.queue.catchUpIntervalMinutes * 60 * 1000);
+    }
   }
 
   /**
-   * Check if URL domain is a real estate site by extracting domain
+   * Persist every completed/failed job still held in Redis.
+   * Jobs are removed from Redis once stored, so anything left over was
+   * missed (service down, crash mid-handler, dropped event). Saving is an
+   * upsert on jobId, so a job that was stored but not yet removed is not
+   * duplicated in scrape_jobs.
    */
-  private isRealEstateDomain(url: string): boolean {
-    try {
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.replace(/^www\./, '');
-      
-      const realEstateDomains = [
-        'urbania.pe',
-        'urbania',  // Handle cases where only domain name is saved
-        'adondevivir.com',
-        'adondevivir',
-        'properati.com.pe',
-        'properati',
-        'nexoinmobiliario.pe',
-        'nexoinmobiliario',
-      ];
-      
-      return realEstateDomains.some(domain => hostname.includes(domain));
-    } catch (error) {
-      return false;
+  async catchUp(): Promise<{ completed: number; failed: number }> {
+    const completed = await this.drain('completed', (job) =>
+      this.handleCompleted(job.id!, job.returnvalue as FetchResult)
+    );
+    const failed = await this.drain('failed', (job) =>
+      this.handleFailed(job.id!, job.failedReason, job)
+    );
+
+    if (completed > 0 || failed > 0) {
+      console.log(`Queue catch-up stored ${completed} completed and ${failed} failed job(s)`);
     }
+    return { completed, failed };
   }
 
   /**
-   * Extract products from completed job and save to products collection
+   * Page through jobs of one state and hand each to `handle`. The
+   * completed/failed sets are scored by finish time, so pages are read by
+   * (finishedOn, jobId) rather than by position: jobs removed meanwhile (by
+   * us or the event handler) cannot shift later ones past the scan, and
+   * kept jobs (e.g. storing them failed) are not revisited until next run.
    */
-  private async extractAndSaveProducts(result: FetchResult): Promise<void> {
-    // Debug logging
-    console.log(`[DEBUG] Job ${result.jobId} - Checking for product extraction...`);
-    console.log(`[DEBUG] extractedData exists: ${!!result.extractedData}`);
-    console.log(`[DEBUG] extractedData keys:`, result.extractedData ? Object.keys(result.extractedData) : 'none');
-    
-    if (!result.extractedData || Object.keys(result.extractedData).length === 0) {
-      console.log(`⚠️  Job ${result.jobId} has no extractedData, skipping product extraction`);
-      console.log(`💡 Tip: Use actions with "saveTo" parameter to populate extractedData`);
-      return;
+  private async drain(
+    type: 'completed' | 'failed',
+    handle: (job: Job) => Promise<boolean>
+  ): Promise<number> {
+    const batchSize = CONFIG.queue.catchUpBatchSize;
+    const client = await this.queue.client;
+    const key = this.queue.toKey(type);
+    let lastScore = 0;
+    // Jobs already seen that finished at lastScore (ties are ordered by id)
+    let seenAtLastScore = new Set<string>();
+    let handled = 0;
+
+    for (;;) {
+      const page = await client.zrangebyscore(
+        key,
+        lastScore,
+        '+inf',
+        'WITHSCORES',
+        'LIMIT',
+        0,
+        batchSize + seenAtLastScore.size
+      );
+      let fresh = 0;
+
+      for (let i = 0; i < page.length; i += 2) {
+        const jobId = page[i];
+        const score = Number(page[i + 1]);
+        if (score === lastScore && seenAtLastScore.has(jobId)) continue;
+        if (score !== lastScore) {
+          lastScore = score;
+          seenAtLastScore = new Set();
+        }
+        seenAtLastScore.add(jobId);
+        fresh++;
+
+        // Gone when the event handler stored and removed it meanwhile
+        const job = await this.queue.getJob(jobId);
+        if (job && (await handle(job))) handled++;
+      }
+      if (fresh === 0) break;
     }
 
+    return handled;
+  }
+
+  /**
+   * Store a completed job, run extraction, then remove it from Redis.
+   * A job whose result was already stored and processed (removing it failed
+   * last time) is only removed, so extraction does not run twice.
+   * Returns true once the job has been stored and removed.
+   */
+  private async handleCompleted(jobId: string, result: FetchResult): Promise<boolean> {
+    if (!this.claim(jobId)) return false;
+
     try {
-      // Parse extractedData if needed
-      let dataToExtract = this.prepareDataForExtraction(result.extractedData);
-      
-      if (!dataToExtract) {
-        console.log(`⚠️  Could not prepare data for extraction from job ${result.jobId}`);
-        return;
-      }
-      
-      // Extract products using strategy pattern (auto-detects format)
-      const extraction = this.productExtractor.extractProducts(
-        dataToExtract,
-        result.url,
-        result.jobId
-      );
+      console.log(`Job ${jobId} completed, saving to MongoDB...`);
 
-      if (extraction.products.length === 0) {
-        console.log(`⚠️  No products extracted from job ${result.jobId}`);
-        console.log(`[DEBUG] Strategy used: ${extraction.metadata.strategyUsed}`);
-        console.log(`[DEBUG] Extraction errors:`, extraction.metadata.errors);
-        return;
+      if (!result || !result.url) {
+        console.error(`Job ${jobId} has no fetch result, leaving it in the queue`);
+        return false;
       }
 
-      console.log(
-        `✅ Extracted ${extraction.products.length} products using ${extraction.metadata.strategyUsed} strategy`
-      );
+      if (await this.storageService.isProcessed(jobId)) {
+        console.log(`Job ${jobId} was already stored and processed`);
+      } else {
+        await this.storageService.saveResult(result, 'completed');
 
-      // Save products with upsert logic
-      const stats = await this.productStorage.upsertProducts(extraction.products);
+        console.log(`Successfully stored job ${jobId}`);
 
-      console.log(
-        `✅ Product upsert complete for job ${result.jobId}: ${stats.inserted} new, ${stats.updated} updated, ${stats.errors} errors`
-      );
+        await this.processor.process(result);
+        await this.storageService.markProcessed(jobId);
+      }
+
+      // Clean up the job from Redis after successful processing
+      const job = await this.queue.getJob(jobId);
+      if (job) {
+        await job.remove();
+        console.log(`Job ${jobId} removed from queue`);
+      }
+      return true;
     } catch (error) {
-      console.error(`❌ Failed to extract/save products for job ${result.jobId}:`, error);
+      console.error(`Failed to store job ${jobId}:`, error);
+      return false;
+    } finally {
+      this.release(jobId);
     }
   }
 
   /**
-   * Extract real estate listings from completed job and save to real_estate_listings collection
+   * Store a failed job with its failure reason, then remove it from Redis.
+   * Returns true once the job has been stored and removed.
    */
-  private async extractAndSaveRealEstate(result: FetchResult): Promise<void> {
-    console.log(`[DEBUG] Job ${result.jobId} - Detected real estate site, extracting listings...`);
+  private async handleFailed(jobId: string, failedReason: string, job?: Job): Promise<boolean> {
+    if (!this.claim(jobId)) return false;
 
     try {
-      // For real estate, we primarily work with HTML
-      const dataToExtract = result.html || result.extractedData;
+      console.log(`Job ${jobId} failed: ${failedReason}`);
 
-      if (!dataToExtract) {
-        console.log(`⚠️  Job ${result.jobId} has no HTML or extractedData for real estate extraction`);
-        return;
+      // Get the job data to extract URL
+      const failedJob = job || (await this.queue.getJob(jobId));
+      if (!failedJob || !failedJob.data) {
+        return false;
       }
 
-      // Extract listings using strategy pattern (auto-detects site)
-      const extraction = this.realEstateExtractor.extractListings(
-        dataToExtract,
-        result.url,
-        result.jobId
-      );
+      const { url } = failedJob.data;
 
-      if (extraction.listings.length === 0) {
-        console.log(`⚠️  No listings extracted from job ${result.jobId}`);
-        console.log(`[DEBUG] Strategy used: ${extraction.metadata.strategyUsed}`);
-        console.log(`[DEBUG] Extraction errors:`, extraction.metadata.errors);
-        return;
-      }
+      // Create a minimal FetchResult for failed jobs
+      const failedResult: FetchResult = {
+        jobId,
+        url,
+        html: '',
+        fetchedAt: failedJob.finishedOn ? new Date(failedJob.finishedOn) : new Date(),
+      };
 
-      console.log(
-        `✅ Extracted ${extraction.listings.length} real estate listings using ${extraction.metadata.strategyUsed} strategy`
-      );
+      await this.storageService.saveResult(failedResult, 'failed', failedReason);
+      console.log(`Saved failed job ${jobId} to MongoDB`);
 
-      // Save listings with upsert logic
-      const stats = await this.realEstateStorage.upsertListings(extraction.listings);
-
-      console.log(
-        `✅ Listing upsert complete for job ${result.jobId}: ${stats.inserted} new, ${stats.updated} updated, ${stats.errors} errors`
-      );
+      // Clean up the job from Redis after recording the failure
+      await failedJob.remove();
+      console.log(`Failed job ${jobId} removed from queue`);
+      return true;
     } catch (error) {
-      console.error(`❌ Failed to extract/save real estate listings for job ${result.jobId}:`, error);
+      console.error(`Failed to store failed job ${jobId}:`, error);
+      return false;
+    } finally {
+      this.release(jobId);
     }
   }
 
   /**
-   * Prepare extractedData for product extraction
-   * Handles cases where data is stored as JSON strings
+   * Guard against the event handler and the catch-up scan processing the
+   * same job concurrently. Returns false if the job is already in flight.
    */
-  private prepareDataForExtraction(extractedData: Record<string, any>): any {
-    // Check common keys where product data might be stored
-    const possibleKeys = ['productData', 'nextData', 'data', 'products'];
-    
-    for (const key of possibleKeys) {
-      if (extractedData[key]) {
-        const value = extractedData[key];
-        
-        // If it's a string, try to parse it as JSON
-        if (typeof value === 'string') {
-          try {
-            console.log(`[DEBUG] Parsing ${key} as JSON (length: ${value.length})`);
-            const parsed = JSON.parse(value);
-            console.log(`[DEBUG] Successfully parsed ${key}`);
-            return parsed;
-          } catch (e) {
-            console.log(`[DEBUG] Failed to parse ${key} as JSON:`, e instanceof Error ? e.message : e);
-            continue;
-          }
-        } else if (typeof value === 'object' && value !== null) {
-          // Already an object, use it directly
-          console.log(`[DEBUG] Using ${key} as object`);
-          return value;
-        }
-      }
-    }
-    
-    // If no known keys found, return the extractedData as-is
-    console.log(`[DEBUG] No known data keys found, using extractedData as-is`);
-    return extractedData;
+  private claim(jobId: string): boolean {
+    if (this.inFlight.has(jobId)) return false;
+    this.inFlight.add(jobId);
+    return true;
+  }
+
+  private release(jobId: string): void {
+    this.inFlight.delete(jobId);
   }
 
   async close(): Promise<void> {
+    if (this.catchUpTimer) {
+      clearInterval(this.catchUpTimer);
+      this.catchUpTimer = null;
+    }
     await this.queueEvents.close();
     await this.queue.close();
     console.log('Queue listener closed');
@@ -1,5 +1,6 @@
 import type { ExtractionStrategy, RealEstateExtractionResult } from '../types/real-estate.types';
 import { UrbaniaStrategy } from './real-estate-strategies/urbania.strategy';
+import { SITES } from '../config/sites';
 
 /**
  * RealEstateExtractorService
@@ -12,6 +13,7 @@ export class RealEstateExtractorService {
     // Register real estate extraction strategies
     this.registerStrategy(new UrbaniaStrategy());
     // Add more strategies here as needed (e.g., AdondeVivir, Properati, etc.)
+    // and list them under the site in the site registry
   }
 
   /**
@@ -79,7 +81,15 @@ export class RealEstateExtractorService {
    * Find the appropriate strategy for the data
    */
   private findStrategy(data: any, url: string): ExtractionStrategy | null {
-    // Try registered strategies in order
+    // Strategies configured for the site come first, in configured order
+    for (const name of SITES.resolve(url)?.strategies || []) {
+      const strategy = this.strategies.find((s) => s.name === name);
+      if (strategy?.canHandle(data, url)) {
+        return strategy;
+      }
+    }
+
+    // Then try registered strategies in order
     for (const strategy of this.strategies) {
       if (strategy.canHandle(data, url)) {
         return strategy;
@@ -98,17 +108,9 @@ export class RealEstateExtractorService {
   }
 
   /**
-   * Check if URL is a supported real estate site
+   * Check if URL belongs to a real estate site in the site registry
    */
   isRealEstateSite(url: string): boolean {
-    const realEstateDomains = [
-      'urbania.pe',
-      'adondevivir.com',
-      'properati.com.pe',
-      'nexoinmobiliario.pe',
-      // Add more as needed
-    ];
-
-    return realEstateDomains.some(domain => url.includes(domain));
+    return SITES.resolve(url)?.vertical === 'real-estate';
   }
 }
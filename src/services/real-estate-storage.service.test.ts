@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeMongo, FakeCollection } from '../test/fake-mongo';
+import { OutboxService, OutboxWriteError } from './outbox.service';
+import { RealEstateStorageService } from './real-estate-storage.service';
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+describe('RealEstateStorageService.markStaleListingsInactive', () => {
+  let listings: FakeCollection;
+  let outbox: FakeCollection;
+  let storage: RealEstateStorageService;
+
+  beforeEach(async () => {
+    const fake = fakeMongo({ real_estate_listings: ['uniqueKey'], event_outbox: ['event.id'] });
+    listings = fake.collection('real_estate_listings');
+    outbox = fake.collection('event_outbox');
+    storage = new RealEstateStorageService(
+      fake.mongo,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      new OutboxService(fake.mongo)
+    );
+    const listing = (listingId: string, lastSeenAt: Date) => ({
+      listingId,
+      uniqueKey: `urbania:${listingId}`,
+      source: { domain: 'urbania', url: `https://example.com/l/${listingId}` },
+      lastSeenAt,
+      active: true,
+    });
+    await listings.insertMany([listing('stale', day(1)), listing('live', day(9))]);
+  });
+
+  const byId = (listingId: string) => listings.docs.find((doc) => doc.listingId === listingId)!;
+
+  it('delists stale listings and records one listing.delisted event each', async () => {
+    expect(await storage.markStaleListingsInactive(day(5))).toBe(1);
+
+    expect(byId('stale').active).toBe(false);
+    expect(byId('stale').delistedEventPending).toBeUndefined();
+    expect(byId('live').active).toBe(true);
+    expect(outbox.docs.map((entry) => entry.event.type)).toEqual(['listing.delisted']);
+    expect(outbox.docs[0].event.data).toMatchObject({
+      uniqueKey: 'urbania:stale',
+      lastSeenAt: day(1),
+    });
+  });
+
+  it('keeps the listing flagged until its event is in the outbox', async () => {
+    outbox.failNext('insertMany');
+
+    await expect(storage.markStaleListingsInactive(day(5))).rejects.toBeInstanceOf(
+      OutboxWriteError
+    );
+    expect(byId('stale').active).toBe(false);
+    expect(byId('stale').delistedEventPending).toEqual(byId('stale').delistedAt);
+    expect(outbox.docs).toHaveLength(0);
+
+    expect(await storage.flushPendingEvents(10)).toBe(1);
+    expect(outbox.docs.map((entry) => entry.event.type)).toEqual(['listing.delisted']);
+    expect(byId('stale').delistedEventPending).toBeUndefined();
+  });
+
+  it('records the event once when clearing the flag failed', async () => {
+    listings.failNext('bulkWrite');
+
+    await expect(storage.markStaleListingsInactive(day(5))).rejects.toThrow('bulkWrite failed');
+    expect(outbox.docs).toHaveLength(1);
+
+    await storage.flushPendingEvents(10);
+
+    expect(outbox.docs).toHaveLength(1);
+    expect(byId('stale').delistedEventPending).toBeUndefined();
+  });
+});
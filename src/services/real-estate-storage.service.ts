@@ -1,173 +1,436 @@
-import { MongoClient, Db, Collection } from 'mongodb';
-import { CONFIG } from '../config';
-import type { RealEstateListing } from '../types/real-estate.types';
-
-interface StoredListing extends RealEstateListing {
-  uniqueKey: string; // domain:listingId
-  firstSeenAt: Date;
-  lastSeenAt: Date;
-  lastUpdatedAt: Date;
-  active: boolean; // false once the listing stops appearing in crawls (delisted)
-  delistedAt?: Date;
-  priceHistory?: Array<{
-    amount: number;
-    currency: string;
-    usdAmount?: number;
-    changedAt: Date;
-  }>;
-}
+import { Collection, AnyBulkWriteOperation, Filter, WithId } from 'mongodb';
+import { changedFields } from '../utils/diff';
+import { runBulkWrite } from '../utils/bulk-write';
+import { EARTH_RADIUS_METERS, sphericalDistance, toGeoPoint } from '../utils/geo';
+import {
+  CursorPage,
+  decodeCursor,
+  encodeCursor,
+  fetchPage,
+  keysetFilter,
+  SortSpec,
+} from '../utils/cursor';
+import { insertBackdatedEntry, refreshesRecord } from '../utils/price-history';
+import { ChangeLogService } from './change-log.service';
+import { MongoConnectionService } from './mongo-connection.service';
+import { PriceObservationService } from './price-observation.service';
+import { FxRateService } from './fx-rate.service';
+import {
+  createEvent,
+  eventPrice,
+  eventsByRecord,
+  OutboxService,
+  stableEventId,
+} from './outbox.service';
+import type { PendingEventSource } from './event-publisher.service';
+// Type-only: saved-search.service imports listingMatchFilter from here
+import type { AlertTrigger, SavedSearchService } from './saved-search.service';
+import type {
+  ChangeLogEntry,
+  PriceObservation,
+  UpsertOptions,
+  UpsertPreview,
+  UpsertStats,
+} from '../types';
+import type {
+  ListingSearchQuery,
+  RealEstateListing,
+  StoredListing,
+} from '../types/real-estate.types';
+import type { DomainEvent } from '../types/event.types';
+
+/** A search hit; distanceMeters is set when the search had a `near` point */
+export type ListingMatch = StoredListing & { distanceMeters?: number };
+
+// Fields that differ on every crawl and say nothing about the listing itself.
+const VOLATILE_FIELDS = ['source'];
 
 /**
  * RealEstateStorageService
  * Handles MongoDB operations for real estate listings with upsert logic and price history
  */
-export class RealEstateStorageService {
-  private client: MongoClient;
-  private db: Db | null = null;
-  private collection: Collection<StoredListing> | null = null;
-
-  constructor() {
-    this.client = new MongoClient(CONFIG.mongodb.uri);
+export class RealEstateStorageService implements PendingEventSource {
+  private collection: Collection<StoredListing>;
+
+  private changeLog: ChangeLogService | null;
+  private prices: PriceObservationService | null;
+  private fx: FxRateService | null;
+  private savedSearches: SavedSearchService | null;
+  private outbox: OutboxService | null;
+
+  constructor(
+    mongo: MongoConnectionService,
+    changeLog?: ChangeLogService,
+    prices?: PriceObservationService,
+    fx?: FxRateService,
+    savedSearches?: SavedSearchService,
+    outbox?: OutboxService
+  ) {
+    this.collection = mongo.collection('real_estate_listings');
+    this.changeLog = changeLog || null;
+    this.prices = prices || null;
+    this.fx = fx || null;
+    this.savedSearches = savedSearches || null;
+    this.outbox = outbox || null;
   }
 
-  async connect(): Promise<void> {
-    try {
-      await this.client.connect();
-      this.db = this.client.db(CONFIG.mongodb.database);
-      this.collection = this.db.collection<StoredListing>('real_estate_listings');
+  /**
+   * Upsert multiple listings.
+   * - New listing: inserted with the first observed price seeded into history.
+   * - Existing listing: every field is refreshed (details, price, location,
+   *   images, metadata, ...), `firstSeenAt` is preserved, and a price-history
+   *   entry is appended only when the price actually changed.
+   * `options.observedAt` backdates the observation (reprocessing); an
+   * observation older than the stored lastSeenAt leaves the current fields
+   * alone and only adds its price to the history, in chronological order
+   * (unless it replays the crawl the stored values came from). It is not
+   * recorded in the change log either.
+   * Existing docs are fetched with one query and every write goes out in a
+   * single unordered bulkWrite; a listing repeated within the batch is
+   * applied on top of its earlier occurrence.
+   * Inserted and repriced listings are matched against saved searches,
+   * except for backdated observations.
+   * Creations, price changes and relistings are recorded as domain events;
+   * price changes and relistings only for observations newer than the
+   * stored lastSeenAt. Throws OutboxWriteError when the events cannot be
+   * moved to the outbox; the listings are written by then and keep the
+   * events (pendingEvents) until flushPendingEvents moves them.
+   */
+  async upsertListings(
+    listings: RealEstateListing[],
+    options: UpsertOptions = {}
+  ): Promise<UpsertStats> {
+    const stats: UpsertStats = { inserted: 0, updated: 0, errors: 0 };
+    if (listings.length === 0) return stats;
 
-      await this.createIndexes();
+    const now = new Date();
+    const observedAt = options.observedAt || now;
+    const keys = listings.map((l) => this.generateUniqueKey(l.source.domain, l.listingId));
+
+    const existingDocs = await this.collection
+      .find({ uniqueKey: { $in: [...new Set(keys)] } })
+      .toArray();
+    const current = new Map<string, StoredListing>(existingDocs.map((doc) => [doc.uniqueKey, doc]));
+    // lastSeenAt as stored before this batch; repeats within it share its time
+    const storedSeenAt = new Map(existingDocs.map((doc) => [doc.uniqueKey, doc.lastSeenAt]));
+    const fx = this.fx ? await this.fx.converter() : null;
+
+    // Fold the batch into one write per key: the full doc for new listings,
+    // the accumulated $set for existing ones.
+    const inserts = new Map<string, StoredListing>();
+    const updates = new Map<string, Partial<StoredListing>>();
+    const counts = new Map<string, { inserted: number; updated: number }>();
+    const changeEntries: ChangeLogEntry[] = [];
+    const observations: PriceObservation[] = [];
+    const triggers: AlertTrigger[] = [];
+    const events: DomainEvent[] = [];
+
+    listings.forEach((listing, i) => {
+      const uniqueKey = keys[i];
+      const previous = current.get(uniqueKey);
+      const count = counts.get(uniqueKey) || { inserted: 0, updated: 0 };
+      counts.set(uniqueKey, count);
+
+      // Listings showing both currencies carry their own USD figure
+      const normalizedPrice =
+        fx && listing.price?.amount
+          ? fx.normalize(listing.price.amount, listing.price.currency, observedAt, {
+              knownUsd: listing.price.usdAmount,
+              pricePerSqm: listing.price.pricePerSqm,
+            })
+          : undefined;
+
+      const priceEntry = this.makePriceEntry(listing, observedAt);
+      if (priceEntry) {
+        const { changedAt, ...price } = priceEntry;
+        observations.push({
+          observedAt: changedAt,
+          meta: { uniqueKey, domain: listing.source.domain, kind: 'listing' },
+          ...price,
+          ...(normalizedPrice?.amountPen != null && { amountPen: normalizedPrice.amountPen }),
+          ...(normalizedPrice?.amountUsd != null && { amountUsd: normalizedPrice.amountUsd }),
+          ...(listing.source.jobId && { jobId: listing.source.jobId }),
+        });
+      }
 
-      console.log(`Connected to MongoDB real_estate_listings collection`);
-    } catch (error) {
-      console.error('Failed to connect to MongoDB (real estate):', error);
-      throw error;
-    }
-  }
+      if (!previous) {
+        const newListing = this.buildNewListing(listing, uniqueKey, observedAt, now);
+        if (normalizedPrice) newListing.normalizedPrice = normalizedPrice;
+        inserts.set(uniqueKey, newListing);
+        current.set(uniqueKey, newListing);
+        triggers.push({ uniqueKey, reason: 'new', observedAt });
+        events.push(
+          createEvent('listing.created', observedAt, {
+            ...listingRef(newListing),
+            title: newListing.title,
+            listingType: newListing.listingType,
+            propertyType: newListing.propertyType,
+            ...(newListing.location?.district && { district: newListing.location.district }),
+            price: eventPrice(newListing.price),
+            ...(normalizedPrice && { normalizedPrice }),
+          })
+        );
+        count.inserted++;
+        return;
+      }
 
-  private async createIndexes(): Promise<void> {
-    if (!this.collection) return;
+      const seenAt = storedSeenAt.get(uniqueKey);
+      const newer = !seenAt || observedAt > seenAt;
+      if (newer && this.priceChanged(previous, listing)) {
+        const { amount, currency } = previous.price;
+        const previousPrice = { amount, currency };
+        triggers.push({ uniqueKey, reason: 'repriced', observedAt, previousPrice });
+        events.push(
+          createEvent('listing.price_changed', observedAt, {
+            ...listingRef({ ...listing, uniqueKey }),
+            price: eventPrice(listing.price),
+            previousPrice: eventPrice(previous.price),
+            ...(normalizedPrice && { normalizedPrice }),
+          })
+        );
+      }
+      if (newer && !previous.active) {
+        events.push(
+          createEvent('listing.relisted', observedAt, {
+            ...listingRef({ ...listing, uniqueKey }),
+            delistedAt: previous.delistedAt || null,
+          })
+        );
+      }
 
-    try {
-      // Unique key for upsert (domain:listingId)
-      await this.collection.createIndex({ uniqueKey: 1 }, { unique: true });
-
-      // Query indexes
-      await this.collection.createIndex({ listingId: 1 });
-      await this.collection.createIndex({ 'source.domain': 1 });
-      await this.collection.createIndex({ listingType: 1 });
-      await this.collection.createIndex({ propertyType: 1 });
-      await this.collection.createIndex({ 'location.district': 1 });
-      await this.collection.createIndex({ 'location.city': 1 });
-      await this.collection.createIndex({ 'price.amount': 1 });
-      await this.collection.createIndex({ 'details.bedrooms': 1 });
-      await this.collection.createIndex({ 'details.bathrooms': 1 });
-      await this.collection.createIndex({ lastSeenAt: -1 });
-      await this.collection.createIndex({ firstSeenAt: -1 });
-      await this.collection.createIndex({ active: 1 });
-      await this.collection.createIndex({ active: 1, lastSeenAt: -1 });
-
-      // Compound indexes for common queries
-      await this.collection.createIndex({ listingType: 1, 'location.district': 1 });
-      await this.collection.createIndex({ propertyType: 1, 'price.amount': 1 });
-      await this.collection.createIndex({ 'details.bedrooms': 1, 'location.district': 1 });
-
-      // Text search
-      await this.collection.createIndex({
-        title: 'text',
-        description: 'text',
-        'location.district': 'text',
+      const refreshed = refreshesRecord(previous, listing, observedAt);
+      const changes = this.buildListingUpdate(previous, listing, uniqueKey, observedAt, now);
+      if (normalizedPrice && refreshed) changes.normalizedPrice = normalizedPrice;
+      if (refreshed) {
+        const entry = this.changeLog?.diff('listing', uniqueKey, previous, listing, observedAt);
+        if (entry) changeEntries.push(entry);
+      }
+      count.updated++;
+      // A backdated price already in the history changes nothing
+      if (Object.keys(changes).length === 0) return;
+
+      current.set(uniqueKey, { ...previous, ...changes });
+      if (inserts.has(uniqueKey)) {
+        inserts.set(uniqueKey, { ...previous, ...changes });
+      } else {
+        updates.set(uniqueKey, { ...updates.get(uniqueKey), ...changes });
+      }
+    });
+
+    const opKeys: string[] = [];
+    const operations: AnyBulkWriteOperation<StoredListing>[] = [];
+    // Each write carries its events, so they outlive a failed outbox write
+    const pending = this.outbox ? eventsByRecord(events) : new Map<string, DomainEvent[]>();
+    for (const [uniqueKey, document] of inserts) {
+      const pendingEvents = pending.get(uniqueKey);
+      opKeys.push(uniqueKey);
+      operations.push({
+        insertOne: { document: pendingEvents ? { ...document, pendingEvents } : document },
+      });
+    }
+    for (const [uniqueKey, changes] of updates) {
+      const pendingEvents = pending.get(uniqueKey);
+      opKeys.push(uniqueKey);
+      operations.push({
+        updateOne: {
+          filter: { uniqueKey },
+          update: {
+            $set: changes,
+            ...(pendingEvents && { $push: { pendingEvents: { $each: pendingEvents } } }),
+          },
+        },
       });
+    }
 
-      // Geospatial index for coordinates
-      await this.collection.createIndex({ 'location.coordinates': '2dsphere' });
+    const failed = await runBulkWrite(this.collection, operations, opKeys);
+    await this.recordChanges(changeEntries.filter((entry) => !failed.has(entry.uniqueKey)));
+    await this.recordPrices(observations.filter((o) => !failed.has(o.meta.uniqueKey)));
+    await this.recordEvents(events.filter((event) => !failed.has(event.data.uniqueKey)));
+    if (!options.observedAt) {
+      await this.raiseAlerts(triggers.filter((trigger) => !failed.has(trigger.uniqueKey)));
+    }
 
-      console.log('MongoDB real estate indexes created');
-    } catch (error) {
-      console.error('Failed to create real estate indexes:', error);
+    for (const [uniqueKey, count] of counts) {
+      const error = failed.get(uniqueKey);
+      if (error) {
+        console.error(`Failed to upsert listing ${uniqueKey}: ${error}`);
+        stats.errors += count.inserted + count.updated;
+        (stats.failures ||= []).push({ uniqueKey, error });
+      } else {
+        stats.inserted += count.inserted;
+        stats.updated += count.updated;
+      }
     }
+
+    return stats;
   }
 
   /**
-   * Upsert multiple listings with upsert logic
+   * Report what upsertListings would do, without writing anything. The
+   * same rules apply (an older observation only adds to priceHistory), and
+   * the listings as previewed are kept in `state`, so a later call sees them.
    */
-  async upsertListings(
-    listings: RealEstateListing[]
-  ): Promise<{ inserted: number; updated: number; errors: number }> {
-    const stats = { inserted: 0, updated: 0, errors: 0 };
-
-    for (const listing of listings) {
-      try {
-        const result = await this.upsertListing(listing);
-        stats[result]++;
-      } catch (error) {
-        console.error(`Failed to upsert listing ${listing.listingId}:`, error);
-        stats.errors++;
+  async previewListings(
+    listings: RealEstateListing[],
+    options: UpsertOptions & { state?: Map<string, StoredListing> } = {}
+  ): Promise<UpsertPreview[]> {
+    const now = new Date();
+    const observedAt = options.observedAt || now;
+    const current = options.state || new Map<string, StoredListing>();
+    const keys = listings.map((l) => this.generateUniqueKey(l.source.domain, l.listingId));
+    const missing = [...new Set(keys)].filter((key) => !current.has(key));
+    if (missing.length > 0) {
+      const existingDocs = await this.collection.find({ uniqueKey: { $in: missing } }).toArray();
+      existingDocs.forEach((doc) => current.set(doc.uniqueKey, doc));
+    }
+
+    return listings.map((listing, i): UpsertPreview => {
+      const uniqueKey = keys[i];
+      const previous = current.get(uniqueKey);
+      if (!previous) {
+        current.set(uniqueKey, this.buildNewListing(listing, uniqueKey, observedAt, now));
+        return { uniqueKey, action: 'insert', priceChanged: false, changedFields: [] };
+      }
+
+      const refreshed = refreshesRecord(previous, listing, observedAt);
+      const changes = this.buildListingUpdate(previous, listing, uniqueKey, observedAt, now);
+      current.set(uniqueKey, { ...previous, ...changes });
+      if (!refreshed) {
+        return {
+          uniqueKey,
+          action: 'update',
+          priceChanged: false,
+          changedFields: changes.priceHistory ? ['priceHistory'] : [],
+        };
       }
+      return {
+        uniqueKey,
+        action: 'update',
+        priceChanged: this.priceChanged(previous, listing),
+        changedFields: changedFields(previous, listing, VOLATILE_FIELDS),
+      };
+    });
+  }
+
+  /** Append field-level changes to the change log; never fails the upsert. */
+  private async recordChanges(entries: ChangeLogEntry[]): Promise<void> {
+    if (!this.changeLog || entries.length === 0) return;
+    try {
+      await this.changeLog.record(entries);
+    } catch (error) {
+      console.error('Failed to record listing changes:', error);
     }
+  }
 
-    return stats;
+  /** Store price observations; never fails the upsert. */
+  private async recordPrices(observations: PriceObservation[]): Promise<void> {
+    if (!this.prices || observations.length === 0) return;
+    try {
+      await this.prices.record(observations);
+    } catch (error) {
+      console.error('Failed to record listing price observations:', error);
+    }
   }
 
   /**
-   * Upsert a single listing.
-   * - New listing: inserted with the first observed price seeded into history.
-   * - Existing listing: every field is refreshed (details, price, location,
-   *   images, metadata, ...), `firstSeenAt` is preserved, and a price-history
-   *   entry is appended only when the price actually changed.
-   * Returns whether the listing was inserted or updated.
+   * Move the events written onto the records to the outbox. A failure fails
+   * the upsert; the events stay on the records until flushPendingEvents.
    */
-  private async upsertListing(listing: RealEstateListing): Promise<'inserted' | 'updated'> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
+  private async recordEvents(events: DomainEvent[]): Promise<void> {
+    if (!this.outbox || events.length === 0) return;
+    await this.outbox.moveFromRecords(this.collection, events);
+  }
 
-    const uniqueKey = this.generateUniqueKey(listing.source.domain, listing.listingId);
-    const now = new Date();
+  /** Move events left on listings by a failed outbox write; returns records handled. */
+  async flushPendingEvents(limit: number): Promise<number> {
+    if (!this.outbox) return 0;
+    const moved = await this.outbox.flushPending(this.collection, limit);
+    return moved + (await this.recordDelistings(limit));
+  }
 
-    const existing = await this.collection.findOne({ uniqueKey });
+  /** Match against saved searches; never fails the upsert. */
+  private async raiseAlerts(triggers: AlertTrigger[]): Promise<void> {
+    if (!this.savedSearches || triggers.length === 0) return;
+    try {
+      await this.savedSearches.evaluate(triggers);
+    } catch (error) {
+      console.error('Failed to evaluate saved searches:', error);
+    }
+  }
 
-    if (!existing) {
-      const firstEntry = this.makePriceEntry(listing, now);
-      const newListing: StoredListing = {
-        ...listing,
-        uniqueKey,
-        firstSeenAt: now,
-        lastSeenAt: now,
-        lastUpdatedAt: now,
-        active: true,
-        priceHistory: firstEntry ? [firstEntry] : [],
-      };
-      await this.collection.insertOne(newListing);
-      return 'inserted';
+  /** Stored form of a listing seen for the first time. */
+  private buildNewListing(
+    listing: RealEstateListing,
+    uniqueKey: string,
+    observedAt: Date,
+    now: Date
+  ): StoredListing {
+    const firstEntry = this.makePriceEntry(listing, observedAt);
+    const geo = toGeoPoint(listing.location?.coordinates);
+    return {
+      ...listing,
+      ...(geo && { geo }),
+      uniqueKey,
+      firstSeenAt: observedAt,
+      lastSeenAt: observedAt,
+      lastUpdatedAt: now,
+      active: true,
+      priceHistory: firstEntry ? [firstEntry] : [],
+    };
+  }
+
+  /**
+   * Fields to $set when an existing listing is seen again. An older
+   * observation from another crawl only places its price in the history
+   * (nothing when that price is already there).
+   */
+  private buildListingUpdate(
+    existing: StoredListing,
+    listing: RealEstateListing,
+    uniqueKey: string,
+    observedAt: Date,
+    now: Date
+  ): Partial<StoredListing> {
+    if (!refreshesRecord(existing, listing, observedAt)) {
+      const entry = this.makePriceEntry(listing, observedAt);
+      const priceHistory = entry
+        ? insertBackdatedEntry(
+            existing.priceHistory || [],
+            entry,
+            (item) => item.changedAt,
+            sameListingPrice
+          )
+        : null;
+      return priceHistory ? { priceHistory, lastUpdatedAt: now } : {};
     }
 
     // Refresh all values; keep the original firstSeenAt. Seeing the listing
     // again means it is active (clears any previous delisting).
+    const seenAgain = observedAt > existing.lastSeenAt;
     const updates: Partial<StoredListing> = {
       ...listing,
+      geo: toGeoPoint(listing.location?.coordinates),
       uniqueKey,
       firstSeenAt: existing.firstSeenAt,
-      lastSeenAt: now,
       lastUpdatedAt: now,
-      active: true,
-      delistedAt: undefined,
+      ...(seenAgain
+        ? { lastSeenAt: observedAt, active: true, delistedAt: undefined }
+        : { lastSeenAt: existing.lastSeenAt }),
     };
 
-    // Maintain price history. Backfill a baseline entry for docs that have no
-    // history yet (e.g. created before history seeding); otherwise append only
-    // on a real price change. For USD-priced listings the PEN amount is
-    // FX-converted and drifts daily, so compare on the USD figure when both
-    // records have it to avoid spurious history entries.
-    const priceHistory = existing.priceHistory ? [...existing.priceHistory] : [];
-    if (priceHistory.length === 0 || this.priceChanged(existing, listing)) {
-      const entry = this.makePriceEntry(listing, now);
+    // Maintain price history: append only on a real price change (docs that
+    // predate history seeding are backfilled by migration 001). For
+    // USD-priced listings the PEN amount is FX-converted and drifts daily, so
+    // compare on the USD figure when both records have it to avoid spurious
+    // history entries.
+    const priceHistory = [...(existing.priceHistory || [])];
+    if (this.priceChanged(existing, listing)) {
+      const entry = this.makePriceEntry(listing, observedAt);
       if (entry) priceHistory.push(entry);
     }
     updates.priceHistory = priceHistory;
 
-    await this.collection.updateOne({ uniqueKey }, { $set: updates });
-    return 'updated';
+    return updates;
   }
 
   /** Build a price-history entry from a listing, or null if it has no price. */
@@ -186,11 +449,7 @@ export class RealEstateStorageService {
 
   /** True when the listing's price differs from what is stored. */
   private priceChanged(existing: StoredListing, listing: RealEstateListing): boolean {
-    const bothUsd = existing.price.usdAmount != null && listing.price.usdAmount != null;
-    if (bothUsd) {
-      return existing.price.usdAmount !== listing.price.usdAmount;
-    }
-    return existing.price.amount !== listing.price.amount;
+    return !sameListingPrice(existing.price, listing.price);
   }
 
   private generateUniqueKey(domain: string, listingId: string): string {
@@ -203,31 +462,215 @@ export class RealEstateStorageService {
    * not falsely delist a listing. Returns the number of newly delisted docs.
    */
   async markStaleListingsInactive(cutoff: Date): Promise<number> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
-
+    const delistedAt = new Date();
     const result = await this.collection.updateMany(
-      { active: { $ne: false }, lastSeenAt: { $lt: cutoff } },
-      { $set: { active: false, delistedAt: new Date() } }
+      { active: true, lastSeenAt: { $lt: cutoff } },
+      {
+        $set: {
+          active: false,
+          delistedAt,
+          // Cleared once the listing.delisted event is in the outbox
+          ...(this.outbox && { delistedEventPending: delistedAt }),
+        },
+      }
     );
 
     if (result.modifiedCount > 0) {
       console.log(`Marked ${result.modifiedCount} stale listing(s) as inactive (not seen since ${cutoff.toISOString()})`);
+      await this.recordDelistings();
     }
     return result.modifiedCount;
   }
 
   /**
-   * Get statistics about stored listings
+   * Record the listing.delisted events of flagged listings (up to `limit`)
+   * and clear their flags. Throws when the outbox write fails; the flags
+   * stay, and flushPendingEvents records the events later under the same
+   * ids. Returns the number of listings handled.
    */
-  async getStats(): Promise<any> {
-    if (!this.collection) {
-      return null;
+  private async recordDelistings(limit = 0): Promise<number> {
+    if (!this.outbox) return 0;
+    const flagged = await this.collection
+      .find({ delistedEventPending: { $exists: true } })
+      .project<StoredListing>({
+        uniqueKey: 1,
+        listingId: 1,
+        source: 1,
+        lastSeenAt: 1,
+        delistedEventPending: 1,
+      })
+      .limit(limit)
+      .toArray();
+    if (flagged.length === 0) return 0;
+
+    await this.outbox.add(
+      flagged.map((listing) => {
+        const delistedAt = listing.delistedEventPending!;
+        return createEvent(
+          'listing.delisted',
+          delistedAt,
+          { ...listingRef(listing), lastSeenAt: listing.lastSeenAt },
+          stableEventId(`listing.delisted|${listing.uniqueKey}|${delistedAt.toISOString()}`)
+        );
+      })
+    );
+    await this.collection.bulkWrite(
+      flagged.map(({ uniqueKey, delistedEventPending }) => ({
+        updateOne: {
+          filter: { uniqueKey, delistedEventPending },
+          update: { $unset: { delistedEventPending: '' } },
+        },
+      }))
+    );
+    return flagged.length;
+  }
+
+  /**
+   * Get a listing by domain and listing ID
+   */
+  async getListing(domain: string, listingId: string): Promise<StoredListing | null> {
+    const uniqueKey = this.generateUniqueKey(domain, listingId);
+    return this.collection.findOne({ uniqueKey });
+  }
+
+  /**
+   * Search listings, one page at a time (keyset pagination on the sort key
+   * plus _id). Equality filters (listingType, propertyType, district,
+   * bedrooms) line up with the compound indexes in INDEXES. With `near`,
+   * the distance sort pages through $geoNear; other sorts run an indexed
+   * find with a $geoWithin radius and compute each hit's distance.
+   */
+  async searchListings(query: ListingSearchQuery): Promise<CursorPage<ListingMatch>> {
+    const filter = listingSearchFilter(query);
+    const sort = this.buildSort(query);
+    const page = { cursor: query.cursor, limit: query.limit || 50 };
+
+    if (!query.near) {
+      return fetchPage(sort, page, (after, limit) =>
+        this.collection
+          .find(after ? ({ $and: [filter, after] } as Filter<StoredListing>) : filter)
+          .sort(sort)
+          .limit(limit)
+          .toArray()
+      );
     }
 
+    if (!('distanceMeters' in sort)) {
+      const near = query.near;
+      const within = listingMatchFilter(query);
+      const result = await fetchPage(sort, page, (after, limit) =>
+        this.collection
+          .find(after ? ({ $and: [within, after] } as Filter<StoredListing>) : within)
+          .sort(sort)
+          .limit(limit)
+          .toArray()
+      );
+      return {
+        ...result,
+        items: result.items.map((listing) => ({
+          ...listing,
+          distanceMeters: sphericalDistance(near, listing.geo!),
+        })),
+      };
+    }
+
+    return this.searchByDistance(query.near, filter, sort, page);
+  }
+
+  /**
+   * Nearest-first page. $geoNear emits listings in distance order, so the
+   * cursor's distance becomes its minDistance and the $limit ends the scan
+   * after one page; listings exactly as far as the cursor are told apart
+   * by _id. $geoNear does not order such ties by _id, so a page ends before
+   * a group of equally distant listings it cannot hold whole, and a page
+   * made of one such group (same building) is read from that group alone.
+   */
+  private async searchByDistance(
+    near: NonNullable<ListingSearchQuery['near']>,
+    filter: Filter<StoredListing>,
+    sort: SortSpec,
+    page: { cursor?: string; limit: number }
+  ): Promise<CursorPage<ListingMatch>> {
+    const after = page.cursor ? decodeCursor(page.cursor, sort) : null;
+    const nearest = (minDistance: unknown, maxDistance?: number) =>
+      this.collection
+        .aggregate<WithId<ListingMatch> & { distanceMeters: number }>([
+          {
+            $geoNear: {
+              near: { type: 'Point', coordinates: [near.lng, near.lat] },
+              key: 'geo',
+              distanceField: 'distanceMeters',
+              spherical: true,
+              query: filter,
+              ...(typeof minDistance === 'number' && { minDistance }),
+              ...(maxDistance !== undefined && { maxDistance }),
+            },
+          },
+          // Only drops the cursor's ties already served
+          ...(after ? [{ $match: keysetFilter(sort, after) }] : []),
+          ...(maxDistance === minDistance ? [{ $sort: sort }] : []),
+          { $limit: page.limit + 1 },
+        ])
+        .toArray();
+
+    let docs = await nearest(after?.[0], near.maxDistanceMeters);
+    docs.sort((a, b) =>
+      a.distanceMeters - b.distanceMeters || String(a._id).localeCompare(String(b._id))
+    );
+    const more = docs.length > page.limit;
+    if (more) {
+      const edge = docs[page.limit].distanceMeters;
+      if (docs[0].distanceMeters === edge) {
+        docs = await nearest(edge, edge);
+      } else {
+        docs = docs.filter((listing) => listing.distanceMeters < edge);
+      }
+    }
+
+    const items = docs.slice(0, page.limit);
+    return {
+      items,
+      nextCursor: more && items.length > 0 ? encodeCursor(items[items.length - 1], sort) : null,
+    };
+  }
+
+  /**
+   * Number of listings matching a search (ignores limit/cursor)
+   */
+  async countListings(query: ListingSearchQuery): Promise<number> {
+    return this.collection.countDocuments(listingMatchFilter(query));
+  }
+
+  /**
+   * Stream every listing matching a search, least recently updated first
+   * (ignores limit/cursor/sort; no distanceMeters). Used by exports.
+   */
+  async *streamListings(query: ListingSearchQuery): AsyncGenerator<StoredListing> {
+    yield* this.collection.find(listingMatchFilter(query)).sort({ lastUpdatedAt: 1, _id: 1 });
+  }
+
+  private buildSort(query: ListingSearchQuery): SortSpec {
+    switch (query.sort || (query.near ? 'distance' : 'newest')) {
+      case 'price_asc':
+        return { [listingPriceField(query)]: 1, _id: 1 };
+      case 'price_desc':
+        return { [listingPriceField(query)]: -1, _id: 1 };
+      case 'recent':
+        return { lastSeenAt: -1, _id: 1 };
+      case 'distance':
+        if (!query.near) throw new Error('Sorting by distance requires a near point');
+        return { distanceMeters: 1, _id: 1 };
+      default:
+        return { firstSeenAt: -1, _id: 1 };
+    }
+  }
+
+  /**
+   * Get statistics about stored listings
+   */
+  async getStats(): Promise<any> {
     // Stats reflect live listings only; delisted (inactive) docs are excluded.
-    const activeFilter = { active: { $ne: false } };
+    const activeFilter = { active: true };
 
     const [total, inactive, byType, byLocation, byPropertyType] = await Promise.all([
       this.collection.countDocuments(activeFilter),
@@ -271,9 +714,87 @@ export class RealEstateStorageService {
       })),
     };
   }
+}
 
-  async close(): Promise<void> {
-    await this.client.close();
-    console.log('Real estate storage connection closed');
+/**
+ * Filter for a listing search usable in any query (countDocuments, plain
+ * finds, saved-search matching): `near` becomes a $centerSphere radius.
+ */
+export function listingMatchFilter(query: ListingSearchQuery): Filter<StoredListing> {
+  const filter: any = listingSearchFilter(query);
+  if (query.near?.maxDistanceMeters !== undefined) {
+    const { lat, lng, maxDistanceMeters } = query.near;
+    const within = { $centerSphere: [[lng, lat], maxDistanceMeters / EARTH_RADIUS_METERS] };
+    filter.$and = [{ geo: { $geoWithin: within } }];
+  } else if (query.near) {
+    filter.geo = { ...filter.geo, $ne: null };
   }
+  return filter;
+}
+
+function listingSearchFilter(query: ListingSearchQuery): Filter<StoredListing> {
+  const filter: any = {};
+  const status = query.status || 'active';
+  if (status !== 'all') filter.active = status === 'active';
+
+  if (query.domain) filter['source.domain'] = query.domain;
+  if (query.listingType) filter.listingType = query.listingType;
+  if (query.propertyType) filter.propertyType = query.propertyType;
+  if (query.district) filter['location.district'] = query.district;
+  if (query.neighborhood) filter['location.neighborhood'] = query.neighborhood;
+
+  const ranges: Array<[string, number | Date | undefined, number | Date | undefined]> = [
+    [listingPriceField(query), query.minPrice, query.maxPrice],
+    ['details.bedrooms', query.minBedrooms, query.maxBedrooms],
+    ['details.bathrooms', query.minBathrooms, query.maxBathrooms],
+    ['details.totalArea', query.minArea, query.maxArea],
+    ['firstSeenAt', query.firstSeenFrom, query.firstSeenTo],
+    ['lastUpdatedAt', query.updatedSince, undefined],
+  ];
+  for (const [field, min, max] of ranges) {
+    if (min === undefined && max === undefined) continue;
+    filter[field] = {
+      ...(min !== undefined && { $gte: min }),
+      ...(max !== undefined && { $lte: max }),
+    };
+  }
+
+  if (query.textSearch) {
+    filter.$text = { $search: query.textSearch };
+  }
+
+  if (query.withinPolygon) {
+    const ring = query.withinPolygon.map(({ lat, lng }) => [lng, lat]);
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first);
+    filter.geo = { $geoWithin: { $geometry: { type: 'Polygon', coordinates: [ring] } } };
+  }
+
+  return filter;
+}
+
+function listingPriceField(query: ListingSearchQuery): string {
+  if (!query.priceCurrency) return 'price.amount';
+  return `normalizedPrice.amount${query.priceCurrency === 'PEN' ? 'Pen' : 'Usd'}`;
+}
+
+/**
+ * Listing prices match when their USD figures do (both have one: the PEN
+ * amount of a USD-priced listing drifts with the FX rate) or amounts do.
+ */
+function sameListingPrice(
+  a: { amount: number; usdAmount?: number },
+  b: { amount: number; usdAmount?: number }
+): boolean {
+  if (a.usdAmount != null && b.usdAmount != null) return a.usdAmount === b.usdAmount;
+  return a.amount === b.amount;
+}
+
+function listingRef(listing: Pick<StoredListing, 'uniqueKey' | 'listingId' | 'source'>) {
+  return {
+    uniqueKey: listing.uniqueKey,
+    domain: listing.source.domain,
+    listingId: listing.listingId,
+    url: listing.source.url,
+  };
 }
@@ -1,5 +1,6 @@
 import type { ExtractionStrategy, RealEstateListing } from '../../types/real-estate.types';
 import { load } from 'cheerio';
+import { SITES } from '../../config/sites';
 
 /**
  * UrbaniaStrategy
@@ -9,7 +10,12 @@ export class UrbaniaStrategy implements ExtractionStrategy {
   readonly name = 'Urbania';
 
   canHandle(data: any, url: string): boolean {
-    return url.includes('urbania.pe');
+    return SITES.resolve(url)?.strategies.includes(this.name) ?? false;
+  }
+
+  /** Country of the site the page belongs to (from the site registry). */
+  private country(url: string): string {
+    return SITES.resolve(url)?.country || 'Peru';
   }
 
   extract(data: any, url: string, jobId?: string): RealEstateListing[] {
@@ -76,7 +82,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
         listingId: String(item.id || item.listingId || item.propertyId || `unknown-${Date.now()}`),
         source: {
           url: item.url || item.link || url,
-          domain: 'urbania.pe',
+          domain: SITES.sourceDomainFor(url),
           scrapedAt: new Date(),
           jobId,
         },
@@ -90,7 +96,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
           period: item.price?.period || this.determinePricePeriod(url, item),
         },
         location: {
-          country: 'Peru',
+          country: this.country(url),
           city: item.location?.city || item.city || undefined,
           district: item.location?.district || item.district || undefined,
           region: item.location?.region || item.region || undefined,
@@ -201,7 +207,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
         const district = ctx.district || this.fallbackDistrict(locationText);
         const neighborhood = this.extractNeighborhood(locationText, district, ctx.city);
         const location: RealEstateListing['location'] = {
-          country: 'Peru',
+          country: this.country(url),
           region: ctx.region,
           city: ctx.city,
           district,
@@ -222,7 +228,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
           listingId: String(listingId),
           source: {
             url: listingUrl,
-            domain: 'urbania.pe',
+            domain: SITES.sourceDomainFor(url),
             scrapedAt: new Date(),
             jobId,
           },
@@ -479,7 +485,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
 
         // Extract location
         const locationText = $card.find('.location, .address, [class*="location"]').text().trim();
-        const location = this.parseLocation(locationText);
+        const location = this.parseLocation(locationText, url);
 
         // Extract property details (bedrooms, bathrooms, etc.)
         const details = this.extractDetails($card);
@@ -502,7 +508,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
           listingId,
           source: {
             url: listingUrl,
-            domain: 'urbania.pe',
+            domain: SITES.sourceDomainFor(url),
             scrapedAt: new Date(),
             jobId,
           },
@@ -572,7 +578,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
       // Extract location
       const contentLocation = entity.contentLocation || {};
       const location: RealEstateListing['location'] = {
-        country: 'Peru',
+        country: this.country(url),
         district: contentLocation.name || undefined,
       };
       
@@ -583,7 +589,7 @@ export class UrbaniaStrategy implements ExtractionStrategy {
         listingId,
         source: {
           url: listingUrl,
-          domain: 'urbania.pe',
+          domain: SITES.sourceDomainFor(url),
           scrapedAt: new Date(),
           jobId,
         },
@@ -623,12 +629,12 @@ export class UrbaniaStrategy implements ExtractionStrategy {
     };
   }
 
-  private parseLocation(locationText: string): RealEstateListing['location'] {
+  private parseLocation(locationText: string, url: string): RealEstateListing['location'] {
     // Split location text (usually: "District, City, Region")
     const parts = locationText.split(',').map(s => s.trim());
 
     return {
-      country: 'Peru',
+      country: this.country(url),
       district: parts[0] || undefined,
       city: parts[1] || undefined,
       region: parts[2] || undefined,
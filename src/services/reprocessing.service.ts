@@ -0,0 +1,157 @@
+import { StorageService, type ResultFilter } from './storage.service';
+import { ResultProcessorService } from './result-processor.service';
+import { ExtractionFailureService, type FailureFilter } from './extraction-failure.service';
+import type { PreviewState, ProcessingOutcome, Vertical } from '../types';
+
+export interface ReprocessOptions {
+  dryRun?: boolean;
+}
+
+export interface ReprocessReport {
+  dryRun: boolean;
+  scanned: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+  byVertical: Record<
+    Vertical,
+    { extracted: number; inserted: number; updated: number; priceChanged: number; errors: number }
+  >;
+  // Per-field counts of what changed (dry run only)
+  changedFields: Record<string, number>;
+  outcomes: ProcessingOutcome[];
+}
+
+/**
+ * ReprocessingService
+ * Replays stored scrape_jobs through the current extraction strategies and
+ * upsert paths, so selector fixes also apply to past crawls.
+ */
+export class ReprocessingService {
+  private storageService: StorageService;
+  private processor: ResultProcessorService;
+  private failures: ExtractionFailureService | null;
+
+  constructor(
+    storageService: StorageService,
+    processor: ResultProcessorService,
+    failures?: ExtractionFailureService
+  ) {
+    this.storageService = storageService;
+    this.processor = processor;
+    this.failures = failures || null;
+  }
+
+  /**
+   * Retry dead-lettered jobs by reprocessing their stored scrape_jobs docs.
+   * Jobs that now succeed have their failure resolved by the processor.
+   */
+  async retryFailures(
+    filter: FailureFilter = { status: 'open' },
+    options: ReprocessOptions = {}
+  ): Promise<ReprocessReport> {
+    if (!this.failures) {
+      throw new Error('Retrying failures requires an ExtractionFailureService');
+    }
+
+    const jobIds = await this.failures.findJobIds(filter);
+    if (jobIds.length === 0) {
+      // An empty jobIds filter would match every stored result
+      console.log('No extraction failures to retry');
+      return this.emptyReport(!!options.dryRun);
+    }
+    return this.reprocess({ jobIds }, options);
+  }
+
+  /**
+   * Reprocess every stored result matching `filter`. Results are replayed
+   * oldest first and upserted as of their original fetch time. With
+   * `dryRun` nothing is written and the report describes what would change,
+   * each job previewed as of its fetch time on top of the jobs before it.
+   */
+  async reprocess(filter: ResultFilter, options: ReprocessOptions = {}): Promise<ReprocessReport> {
+    const dryRun = !!options.dryRun;
+    const report = this.emptyReport(dryRun);
+    // A dry run writes nothing, so later jobs preview on top of earlier ones
+    const previewState: PreviewState | undefined = dryRun
+      ? { products: new Map(), listings: new Map() }
+      : undefined;
+
+    console.log(`Reprocessing scrape_jobs${dryRun ? ' (dry run)' : ''}:`, filter);
+
+    for await (const stored of this.storageService.findResults(filter)) {
+      report.scanned++;
+
+      if (stored.state !== 'completed') {
+        report.skipped++;
+        continue;
+      }
+
+      try {
+        const outcome = await this.processor.process(stored, {
+          dryRun,
+          observedAt: new Date(stored.fetchedAt),
+          previewState,
+        });
+        this.accumulate(report, outcome);
+      } catch (error) {
+        console.error(`Failed to reprocess job ${stored.jobId}:`, error);
+        report.failed++;
+      }
+    }
+
+    console.log(
+      `Reprocessing complete: ${report.scanned} scanned, ${report.processed} processed, ${report.skipped} skipped, ${report.failed} failed`
+    );
+
+    return report;
+  }
+
+  private emptyReport(dryRun: boolean): ReprocessReport {
+    return {
+      dryRun,
+      scanned: 0,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      byVertical: {
+        products: { extracted: 0, inserted: 0, updated: 0, priceChanged: 0, errors: 0 },
+        'real-estate': { extracted: 0, inserted: 0, updated: 0, priceChanged: 0, errors: 0 },
+      },
+      changedFields: {},
+      outcomes: [],
+    };
+  }
+
+  private accumulate(report: ReprocessReport, outcome: ProcessingOutcome): void {
+    report.outcomes.push(outcome);
+
+    if (outcome.skippedReason) {
+      report.skipped++;
+      return;
+    }
+    if (outcome.exception) {
+      report.failed++;
+      return;
+    }
+    report.processed++;
+
+    const totals = report.byVertical[outcome.vertical];
+    totals.extracted += outcome.extracted;
+
+    if (outcome.stats) {
+      totals.inserted += outcome.stats.inserted;
+      totals.updated += outcome.stats.updated;
+      totals.errors += outcome.stats.errors;
+    }
+
+    for (const item of outcome.preview || []) {
+      if (item.action === 'insert') totals.inserted++;
+      else totals.updated++;
+      if (item.priceChanged) totals.priceChanged++;
+      for (const field of item.changedFields) {
+        report.changedFields[field] = (report.changedFields[field] || 0) + 1;
+      }
+    }
+  }
+}
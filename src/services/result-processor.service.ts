@@ -0,0 +1,247 @@
+import { ProductExtractorService } from './product-extractor.service';
+import { ProductStorageService } from './product-storage.service';
+import { RealEstateExtractorService } from './real-estate-extractor.service';
+import { RealEstateStorageService } from './real-estate-storage.service';
+import { ExtractionFailureService } from './extraction-failure.service';
+import { OutboxWriteError } from './outbox.service';
+import { SITES } from '../config/sites';
+import type { FetchResult, ProcessingOptions, ProcessingOutcome } from '../types';
+
+/**
+ * ResultProcessorService
+ * Routes a fetch result to the product or real estate pipeline, extracts
+ * records with the current strategies and upserts them. Shared by the queue
+ * listener (live results) and reprocessing (stored scrape_jobs).
+ */
+export class ResultProcessorService {
+  private productExtractor: ProductExtractorService;
+  private productStorage: ProductStorageService;
+  private realEstateExtractor: RealEstateExtractorService;
+  private realEstateStorage: RealEstateStorageService;
+  private failures: ExtractionFailureService | null;
+
+  constructor(
+    productStorage: ProductStorageService,
+    realEstateStorage: RealEstateStorageService,
+    failures?: ExtractionFailureService
+  ) {
+    this.productExtractor = new ProductExtractorService();
+    this.productStorage = productStorage;
+    this.realEstateExtractor = new RealEstateExtractorService();
+    this.realEstateStorage = realEstateStorage;
+    this.failures = failures || null;
+  }
+
+  /**
+   * Extract and upsert the records contained in a fetch result.
+   * With `dryRun` nothing is written; the outcome carries a per-record
+   * preview of what the upsert would do instead.
+   * Unless dry-running, failed outcomes are recorded in extraction_failures
+   * and a clean run resolves any open failure for the job. An OutboxWriteError
+   * is rethrown so the job is retried rather than acknowledged.
+   */
+  async process(result: FetchResult, options: ProcessingOptions = {}): Promise<ProcessingOutcome> {
+    // The site registry decides whether this is a real estate or product site
+    const outcome = SITES.verticalFor(result.url) === 'real-estate'
+      ? await this.extractAndSaveRealEstate(result, options)
+      : await this.extractAndSaveProducts(result, options);
+
+    if (this.failures && !options.dryRun) {
+      try {
+        await this.failures.recordOutcome(outcome);
+      } catch (error) {
+        console.error(`Failed to record extraction outcome for job ${result.jobId}:`, error);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Extract products from completed job and save to products collection
+   */
+  private async extractAndSaveProducts(
+    result: FetchResult,
+    options: ProcessingOptions
+  ): Promise<ProcessingOutcome> {
+    const outcome: ProcessingOutcome = {
+      jobId: result.jobId,
+      url: result.url,
+      vertical: 'products',
+      extracted: 0,
+    };
+
+    // Debug logging
+    console.log(`[DEBUG] Job ${result.jobId} - Checking for product extraction...`);
+    console.log(`[DEBUG] extractedData exists: ${!!result.extractedData}`);
+    console.log(`[DEBUG] extractedData keys:`, result.extractedData ? Object.keys(result.extractedData) : 'none');
+
+    if (!result.extractedData || Object.keys(result.extractedData).length === 0) {
+      console.log(`⚠️  Job ${result.jobId} has no extractedData, skipping product extraction`);
+      console.log(`💡 Tip: Use actions with "saveTo" parameter to populate extractedData`);
+      outcome.skippedReason = 'no extractedData';
+      return outcome;
+    }
+
+    try {
+      // Parse extractedData if needed
+      const dataToExtract = this.prepareDataForExtraction(result.extractedData);
+
+      if (!dataToExtract) {
+        console.log(`⚠️  Could not prepare data for extraction from job ${result.jobId}`);
+        outcome.skippedReason = 'could not prepare extractedData';
+        return outcome;
+      }
+
+      // Extract products using strategy pattern (auto-detects format)
+      const extraction = this.productExtractor.extractProducts(
+        dataToExtract,
+        result.url,
+        result.jobId
+      );
+      outcome.strategyUsed = extraction.metadata.strategyUsed;
+      outcome.extracted = extraction.products.length;
+      outcome.errors = extraction.metadata.errors;
+
+      if (extraction.products.length === 0) {
+        console.log(`⚠️  No products extracted from job ${result.jobId}`);
+        console.log(`[DEBUG] Strategy used: ${extraction.metadata.strategyUsed}`);
+        console.log(`[DEBUG] Extraction errors:`, extraction.metadata.errors);
+        return outcome;
+      }
+
+      console.log(
+        `✅ Extracted ${extraction.products.length} products using ${extraction.metadata.strategyUsed} strategy`
+      );
+
+      if (options.dryRun) {
+        outcome.preview = await this.productStorage.previewProducts(extraction.products, {
+          observedAt: options.observedAt,
+          state: options.previewState?.products,
+        });
+        return outcome;
+      }
+
+      // Save products with upsert logic
+      const stats = await this.productStorage.upsertProducts(extraction.products, options);
+      outcome.stats = stats;
+
+      console.log(
+        `✅ Product upsert complete for job ${result.jobId}: ${stats.inserted} new, ${stats.updated} updated, ${stats.errors} errors`
+      );
+    } catch (error) {
+      if (error instanceof OutboxWriteError) throw error;
+      console.error(`❌ Failed to extract/save products for job ${result.jobId}:`, error);
+      outcome.exception = error instanceof Error ? error.message : String(error);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Extract real estate listings from completed job and save to real_estate_listings collection
+   */
+  private async extractAndSaveRealEstate(
+    result: FetchResult,
+    options: ProcessingOptions
+  ): Promise<ProcessingOutcome> {
+    const outcome: ProcessingOutcome = {
+      jobId: result.jobId,
+      url: result.url,
+      vertical: 'real-estate',
+      extracted: 0,
+    };
+
+    console.log(`[DEBUG] Job ${result.jobId} - Detected real estate site, extracting listings...`);
+
+    try {
+      // For real estate, we primarily work with HTML
+      const dataToExtract = result.html || result.extractedData;
+
+      if (!dataToExtract) {
+        console.log(`⚠️  Job ${result.jobId} has no HTML or extractedData for real estate extraction`);
+        outcome.skippedReason = 'no HTML or extractedData';
+        return outcome;
+      }
+
+      // Extract listings using strategy pattern (auto-detects site)
+      const extraction = this.realEstateExtractor.extractListings(
+        dataToExtract,
+        result.url,
+        result.jobId
+      );
+      outcome.strategyUsed = extraction.metadata.strategyUsed;
+      outcome.extracted = extraction.listings.length;
+      outcome.errors = extraction.metadata.errors;
+
+      if (extraction.listings.length === 0) {
+        console.log(`⚠️  No listings extracted from job ${result.jobId}`);
+        console.log(`[DEBUG] Strategy used: ${extraction.metadata.strategyUsed}`);
+        console.log(`[DEBUG] Extraction errors:`, extraction.metadata.errors);
+        return outcome;
+      }
+
+      console.log(
+        `✅ Extracted ${extraction.listings.length} real estate listings using ${extraction.metadata.strategyUsed} strategy`
+      );
+
+      if (options.dryRun) {
+        outcome.preview = await this.realEstateStorage.previewListings(extraction.listings, {
+          observedAt: options.observedAt,
+          state: options.previewState?.listings,
+        });
+        return outcome;
+      }
+
+      // Save listings with upsert logic
+      const stats = await this.realEstateStorage.upsertListings(extraction.listings, options);
+      outcome.stats = stats;
+
+      console.log(
+        `✅ Listing upsert complete for job ${result.jobId}: ${stats.inserted} new, ${stats.updated} updated, ${stats.errors} errors`
+      );
+    } catch (error) {
+      if (error instanceof OutboxWriteError) throw error;
+      console.error(`❌ Failed to extract/save real estate listings for job ${result.jobId}:`, error);
+      outcome.exception = error instanceof Error ? error.message : String(error);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Prepare extractedData for product extraction
+   * Handles cases where data is stored as JSON strings
+   */
+  private prepareDataForExtraction(extractedData: Record<string, any>): any {
+    // Check common keys where product data might be stored
+    const possibleKeys = ['productData', 'nextData', 'data', 'products'];
+
+    for (const key of possibleKeys) {
+      if (extractedData[key]) {
+        const value = extractedData[key];
+
+        // If it's a string, try to parse it as JSON
+        if (typeof value === 'string') {
+          try {
+            console.log(`[DEBUG] Parsing ${key} as JSON (length: ${value.length})`);
+            const parsed = JSON.parse(value);
+            console.log(`[DEBUG] Successfully parsed ${key}`);
+            return parsed;
+          } catch (e) {
+            console.log(`[DEBUG] Failed to parse ${key} as JSON:`, e instanceof Error ? e.message : e);
+            continue;
+          }
+        } else if (typeof value === 'object' && value !== null) {
+          // Already an object, use it directly
+          console.log(`[DEBUG] Using ${key} as object`);
+          return value;
+        }
+      }
+    }
+
+    // If no known keys found, return the extractedData as-is
+    console.log(`[DEBUG] No known data keys found, using extractedData as-is`);
+    return extractedData;
+  }
+}
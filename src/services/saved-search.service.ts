@@ -0,0 +1,212 @@
+import { randomUUID } from 'crypto';
+import { AnyBulkWriteOperation, Collection, Filter } from 'mongodb';
+import { CursorPage, fetchPage, stableSort } from '../utils/cursor';
+import { MongoConnectionService } from './mongo-connection.service';
+import { listingMatchFilter } from './real-estate-storage.service';
+import { deliverAlerts, type AlertNotifier } from './alert-notifier.service';
+import type { PendingAlertSource } from './alert-dispatcher.service';
+import type {
+  ListingAlert,
+  ListingSearchQuery,
+  SavedSearch,
+  StoredListing,
+} from '../types/real-estate.types';
+
+/** An inserted or repriced listing, as reported by upsertListings */
+export interface AlertTrigger {
+  uniqueKey: string;
+  reason: ListingAlert['reason'];
+  observedAt: Date;
+  previousPrice?: { amount: number; currency: string };
+}
+
+const ALERTS_SORT = stableSort({ createdAt: -1 });
+
+/**
+ * SavedSearchService
+ * Stores saved listing searches and, for each batch of inserted/repriced
+ * listings, records an alert per (search, listing) match in listing_alerts.
+ * New alerts are pending until AlertDispatcherService calls deliverPending.
+ */
+export class SavedSearchService implements PendingAlertSource {
+  private searches: Collection<SavedSearch>;
+  private alerts: Collection<ListingAlert>;
+  private listings: Collection<StoredListing>;
+  private notifiers: AlertNotifier[];
+
+  constructor(mongo: MongoConnectionService, notifiers: AlertNotifier[] = []) {
+    this.searches = mongo.collection('saved_searches');
+    this.alerts = mongo.collection('listing_alerts');
+    this.listings = mongo.collection('real_estate_listings');
+    this.notifiers = notifiers;
+  }
+
+  notifierNames(): string[] {
+    return this.notifiers.map((notifier) => notifier.name);
+  }
+
+  async create(input: {
+    name: string;
+    query: ListingSearchQuery;
+    notifiers?: string[];
+  }): Promise<SavedSearch> {
+    // Only filters are meaningful for matching
+    const { sort, limit, cursor, ...query } = input.query;
+    const now = new Date();
+    const search: SavedSearch = {
+      id: randomUUID(),
+      name: input.name,
+      query,
+      ...(input.notifiers && { notifiers: input.notifiers }),
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.searches.insertOne({ ...search });
+    return search;
+  }
+
+  async list(): Promise<SavedSearch[]> {
+    return this.searches.find({}, { projection: { _id: 0 } }).sort({ createdAt: 1 }).toArray();
+  }
+
+  async get(id: string): Promise<SavedSearch | null> {
+    return this.searches.findOne({ id }, { projection: { _id: 0 } });
+  }
+
+  /** Delete a saved search; its alerts are kept. */
+  async remove(id: string): Promise<boolean> {
+    const result = await this.searches.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+
+  /** Alerts, newest first, optionally for one search */
+  async listAlerts(
+    searchId?: string,
+    page: { cursor?: string; limit?: number } = {}
+  ): Promise<CursorPage<ListingAlert>> {
+    const filter: Filter<ListingAlert> = searchId ? { searchId } : {};
+    return fetchPage(ALERTS_SORT, { cursor: page.cursor, limit: page.limit || 50 }, (after, limit) =>
+      this.alerts
+        .find(after ? ({ $and: [filter, after] } as Filter<ListingAlert>) : filter)
+        .sort(ALERTS_SORT)
+        .limit(limit)
+        .toArray()
+    );
+  }
+
+  /**
+   * Match triggered listings against every active saved search and record
+   * the alerts (once per search, listing and observation), pending
+   * delivery. Returns the number of new alerts.
+   */
+  async evaluate(triggers: AlertTrigger[]): Promise<number> {
+    if (triggers.length === 0) return 0;
+    const searches = await this.searches.find({ active: true }).toArray();
+    if (searches.length === 0) return 0;
+
+    const keys = [...new Set(triggers.map((trigger) => trigger.uniqueKey))];
+    const now = new Date();
+    const alerts: ListingAlert[] = [];
+
+    for (const search of searches) {
+      const matches = await this.listings
+        .find({ $and: [listingMatchFilter(search.query), { uniqueKey: { $in: keys } }] })
+        .project<StoredListing>({
+          uniqueKey: 1,
+          title: 1,
+          'source.url': 1,
+          listingType: 1,
+          'location.district': 1,
+          price: 1,
+          normalizedPrice: 1,
+        })
+        .toArray();
+      const byKey = new Map(matches.map((listing) => [listing.uniqueKey, listing]));
+
+      for (const trigger of triggers) {
+        const listing = byKey.get(trigger.uniqueKey);
+        if (listing) alerts.push(this.buildAlert(search, listing, trigger, now));
+      }
+    }
+
+    const created = await this.insertAlerts(alerts);
+    if (created > 0) console.log(`✓ ${created} new saved-search alert(s)`);
+    return created;
+  }
+
+  /**
+   * Hand up to `limit` pending alerts, oldest first, to the notifiers of
+   * their search (all of them once the search is deleted) and clear their
+   * pending flag. Returns the number handled.
+   */
+  async deliverPending(limit: number): Promise<number> {
+    const pending = await this.alerts
+      .find({ pendingDelivery: true })
+      .sort({ _id: 1 })
+      .limit(limit)
+      .toArray();
+    if (pending.length === 0) return 0;
+
+    const searchIds = [...new Set(pending.map((alert) => alert.searchId))];
+    const searches = await this.searches.find({ id: { $in: searchIds } }).toArray();
+    const subscribed = new Map(searches.map((search) => [search.id, search.notifiers]));
+    await deliverAlerts(
+      this.notifiers,
+      this.alerts,
+      pending.map(({ _id, pendingDelivery, ...alert }) => ({ _id, alert })),
+      (alert) => subscribed.get(alert.searchId)
+    );
+
+    await this.alerts.updateMany(
+      { _id: { $in: pending.map((alert) => alert._id) } },
+      { $unset: { pendingDelivery: '' } }
+    );
+    return pending.length;
+  }
+
+  private buildAlert(
+    search: SavedSearch,
+    listing: StoredListing,
+    trigger: AlertTrigger,
+    now: Date
+  ): ListingAlert {
+    return {
+      searchId: search.id,
+      searchName: search.name,
+      uniqueKey: listing.uniqueKey,
+      reason: trigger.reason,
+      observedAt: trigger.observedAt,
+      listing: {
+        title: listing.title,
+        url: listing.source.url,
+        listingType: listing.listingType,
+        ...(listing.location?.district && { district: listing.location.district }),
+        price: listing.price,
+        ...(listing.normalizedPrice && { normalizedPrice: listing.normalizedPrice }),
+      },
+      ...(trigger.previousPrice && { previousPrice: trigger.previousPrice }),
+      createdAt: now,
+      pendingDelivery: true,
+      deliveries: {},
+    };
+  }
+
+  /** Insert alerts not recorded yet; returns how many were new. */
+  private async insertAlerts(alerts: ListingAlert[]): Promise<number> {
+    if (alerts.length === 0) return 0;
+    const operations: AnyBulkWriteOperation<ListingAlert>[] = alerts.map((alert) => ({
+      updateOne: {
+        filter: {
+          searchId: alert.searchId,
+          uniqueKey: alert.uniqueKey,
+          observedAt: alert.observedAt,
+        },
+        update: { $setOnInsert: alert },
+        upsert: true,
+      },
+    }));
+    const result = await this.alerts.bulkWrite(operations, { ordered: false });
+    return result.upsertedCount;
+  }
+}
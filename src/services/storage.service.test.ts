@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fakeMongo, FakeCollection, MemoryBlobStore } from '../test/fake-mongo';
+import { StorageService } from './storage.service';
+import type { RetentionPolicies } from '../types';
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+const daysAgo = (n: number) => new Date(Date.now() - n * 24 * 60 * 60 * 1000);
+
+const DEFAULTS: RetentionPolicies = {
+  completed: { htmlDays: 7, screenshotDays: 0 },
+  failed: { htmlDays: 1, screenshotDays: 1 },
+};
+
+describe('StorageService.applyRetention', () => {
+  let jobs: FakeCollection;
+  let blobs: MemoryBlobStore;
+  let storage: StorageService;
+  const hashes: Record<string, string> = {};
+
+  beforeEach(async () => {
+    const fake = fakeMongo();
+    jobs = fake.collection('scrape_jobs');
+    blobs = new MemoryBlobStore();
+    storage = new StorageService(fake.mongo, blobs);
+    for (const name of ['shared', 'old', 'archived', 'failed', 'screenshot']) {
+      hashes[name] = await blobs.put(Buffer.from(`<html>${name}</html>`));
+    }
+
+    const job = (jobId: string, domain: string, storedAt: Date, fields: object) => ({
+      jobId,
+      url: `https://${domain}.example/${jobId}`,
+      fetchedAt: storedAt,
+      storedAt,
+      state: 'completed',
+      domain,
+      ...fields,
+    });
+    await jobs.insertMany([
+      job('stale', 'shop', daysAgo(10), {
+        htmlHash: hashes.shared,
+        screenshotHash: hashes.screenshot,
+      }),
+      job('fresh', 'shop', daysAgo(2), { htmlHash: hashes.shared }),
+      job('stale-only-ref', 'shop', daysAgo(10), { htmlHash: hashes.old }),
+      job('archived', 'archive', daysAgo(30), { htmlHash: hashes.archived }),
+      job('failed', 'shop', daysAgo(3), { htmlHash: hashes.failed, state: 'unknown' }),
+      job('legacy', 'shop', daysAgo(10), { html: '<html>inline</html>' }),
+    ]);
+  });
+
+  const byJob = (jobId: string) => jobs.docs.find((doc) => doc.jobId === jobId)!;
+
+  it('drops html past its window per state and domain, keeping the metadata', async () => {
+    const dropped = await storage.applyRetention(DEFAULTS, {
+      archive: { completed: { htmlDays: 0, screenshotDays: 0 }, failed: DEFAULTS.failed },
+    });
+
+    expect(dropped).toEqual({ html: 4, screenshots: 0 });
+    for (const jobId of ['stale', 'stale-only-ref', 'failed', 'legacy']) {
+      expect(byJob(jobId).htmlHash).toBeUndefined();
+      expect(byJob(jobId).html).toBeUndefined();
+      expect(byJob(jobId).htmlDroppedAt).toBeInstanceOf(Date);
+      expect(byJob(jobId).url).toBeDefined();
+    }
+    expect(byJob('stale').screenshotHash).toBe(hashes.screenshot);
+    expect(byJob('fresh').htmlHash).toBe(hashes.shared);
+    expect(byJob('archived').htmlHash).toBe(hashes.archived);
+  });
+
+  it('deletes only blobs no job references anymore', async () => {
+    await storage.applyRetention(DEFAULTS);
+
+    expect(await blobs.get(hashes.old)).toBeNull();
+    expect(await blobs.get(hashes.failed)).toBeNull();
+    expect(await blobs.get(hashes.archived)).toBeNull();
+    expect(await blobs.get(hashes.shared)).not.toBeNull();
+    expect(await blobs.get(hashes.screenshot)).not.toBeNull();
+  });
+
+  it('changes nothing on a second run', async () => {
+    await storage.applyRetention(DEFAULTS);
+    const before = [...jobs.docs];
+
+    expect(await storage.applyRetention(DEFAULTS)).toEqual({ html: 0, screenshots: 0 });
+    expect(jobs.docs).toEqual(before);
+  });
+});
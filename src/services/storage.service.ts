@@ -1,93 +1,49 @@
-import { MongoClient, Db, Collection } from 'mongodb';
-import { CONFIG } from '../config';
-import type { FetchResult, StoredResult } from '../types';
+import { Collection, Filter } from 'mongodb';
+import { SITES } from '../config/sites';
+import { MongoConnectionService } from './mongo-connection.service';
+import type { BlobStore } from './blob-store.service';
+import { decompressText } from '../utils/compression';
+import { CursorPage, fetchPage, SortSpec, stableSort } from '../utils/cursor';
+import type {
+  FetchResult,
+  RetentionPolicies,
+  StoredResult,
+  StoredResultDocument,
+} from '../types';
 
-export class StorageService {
-  private client: MongoClient;
-  private db: Db | null = null;
-  private collection: Collection<StoredResult> | null = null;
-
-  constructor() {
-    this.client = new MongoClient(CONFIG.mongodb.uri);
-  }
-
-  /**
-   * Extract domain from URL
-   * Examples:
-   * - https://www.falabella.com.pe/... -> falabella
-   * - https://amazon.com/... -> amazon
-   * - https://shop.example.co.uk/... -> example
-   */
-  private extractDomain(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname;
-
-      // Remove www. prefix
-      const withoutWww = hostname.replace(/^www\./, '');
-
-      // Split by dots
-      const parts = withoutWww.split('.');
-
-      // Common second-level domains (SLDs) in multi-level TLDs
-      const commonSLDs = new Set(['com', 'co', 'org', 'net', 'gov', 'edu', 'ac']);
-
-      if (parts.length >= 3) {
-        // Check if second-to-last part is a common SLD (e.g., .com.pe, .co.uk)
-        const secondToLast = parts[parts.length - 2];
-        if (commonSLDs.has(secondToLast)) {
-          // Multi-level TLD: take third from last
-          // falabella.com.pe -> parts = [falabella, com, pe] -> falabella
-          return parts[parts.length - 3];
-        } else {
-          // Regular domain: take second from last
-          // subdomain.example.com -> parts = [subdomain, example, com] -> example
-          return parts[parts.length - 2];
-        }
-      } else if (parts.length === 2) {
-        // Simple domain: amazon.com -> parts = [amazon, com] -> amazon
-        return parts[0];
-      }
-
-      // Single part, return as is
-      return parts[0];
-    } catch (error) {
-      console.error('Failed to extract domain from URL:', url, error);
-      return 'unknown';
-    }
-  }
+/**
+ * newest: first stored, newest first (_id; stable). recent: last stored
+ * (storedAt), which a re-save of the job moves, so it can skip or repeat
+ * a job across pages.
+ */
+export type ResultSort = 'newest' | 'recent';
 
-  async connect(): Promise<void> {
-    try {
-      await this.client.connect();
-      this.db = this.client.db(CONFIG.mongodb.database);
-      this.collection = this.db.collection<StoredResult>('scrape_jobs');
+export interface ResultFilter {
+  domain?: string;
+  state?: StoredResult['state'];
+  jobIds?: string[];
+  fetchedFrom?: Date;
+  fetchedTo?: Date;
+}
 
-      // Create indexes for better query performance
-      await this.createIndexes();
+/** scrape_jobs doc without its payloads, for browsing */
+export type ResultSummary = Omit<
+  StoredResultDocument,
+  'html' | 'htmlGz' | 'screenshot' | 'extractedData'
+>;
 
-      console.log(`Connected to MongoDB: ${CONFIG.mongodb.database}`);
-    } catch (error) {
-      console.error('Failed to connect to MongoDB:', error);
-      throw error;
-    }
-  }
+const BROWSE_SORTS: Record<ResultSort, SortSpec> = {
+  newest: { _id: -1 },
+  recent: stableSort({ storedAt: -1 }),
+};
 
-  private async createIndexes(): Promise<void> {
-    if (!this.collection) return;
+export class StorageService {
+  private collection: Collection<StoredResultDocument>;
+  private blobs: BlobStore;
 
-    try {
-      await this.collection.createIndex({ jobId: 1 }, { unique: true });
-      await this.collection.createIndex({ url: 1 });
-      await this.collection.createIndex({ fetchedAt: -1 });
-      await this.collection.createIndex({ storedAt: -1 });
-      await this.collection.createIndex({ state: 1 });
-      await this.collection.createIndex({ domain: 1 });
-      await this.collection.createIndex({ domain: 1, state: 1 });
-      console.log('MongoDB indexes created');
-    } catch (error) {
-      console.error('Failed to create indexes:', error);
-    }
+  constructor(mongo: MongoConnectionService, blobs: BlobStore) {
+    this.collection = mongo.collection('scrape_jobs');
+    this.blobs = blobs;
   }
 
   async saveResult(
@@ -95,28 +51,58 @@ export class StorageService {
     state: 'completed' | 'failed' = 'completed',
     failureReason?: string
   ): Promise<void> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
-
     try {
-      const domain = this.extractDomain(result.url);
+      const domain = SITES.domainFor(result.url);
+
+      const { html, screenshot, ...rest } = result;
+      const htmlPayload = html ? Buffer.from(html, 'utf-8') : null;
+      const screenshotPayload = screenshot ? Buffer.from(screenshot, 'utf-8') : null;
+      const htmlHash = htmlPayload ? await this.blobs.put(htmlPayload) : undefined;
+      const screenshotHash = screenshotPayload
+        ? await this.blobs.put(screenshotPayload)
+        : undefined;
+      const previous = htmlHash ? await this.findPreviousCrawl(result) : null;
+      const contentChanged = previous?.htmlHash ? previous.htmlHash !== htmlHash : undefined;
 
-      const storedResult: StoredResult = {
-        ...result,
+      const storedResult: StoredResultDocument = {
+        ...rest,
         storedAt: new Date(),
         state,
         domain,
         ...(failureReason && { failureReason }),
+        ...(htmlHash && { htmlHash }),
+        ...(screenshotHash && { screenshotHash }),
+        ...(contentChanged !== undefined && { contentChanged }),
       };
 
-      // Upsert to handle duplicate jobs
+      // Upsert to handle duplicate jobs. A re-save replaces the payload, so
+      // clear inline payloads, stale references and retention markers.
       await this.collection.updateOne(
         { jobId: result.jobId },
-        { $set: storedResult },
+        {
+          $set: storedResult,
+          $unset: {
+            html: '',
+            htmlGz: '',
+            screenshot: '',
+            htmlDroppedAt: '',
+            screenshotDroppedAt: '',
+            processedAt: '',
+            ...(!htmlHash && { htmlHash: '' }),
+            ...(!screenshotHash && { screenshotHash: '' }),
+            ...(contentChanged === undefined && { contentChanged: '' }),
+          },
+        },
         { upsert: true }
       );
+      // A retention sweep may have reaped a blob that already existed
+      // between put() and the write above; putting again restores it
+      if (htmlPayload) await this.blobs.put(htmlPayload);
+      if (screenshotPayload) await this.blobs.put(screenshotPayload);
 
+      if (contentChanged === false) {
+        console.log(`Job ${result.jobId}: page unchanged since job ${previous!.jobId}`);
+      }
       console.log(
         `Saved result for job ${result.jobId} to MongoDB (state: ${state}, domain: ${domain})`
       );
@@ -126,12 +112,236 @@ export class StorageService {
     }
   }
 
+  /** Record that extraction has run on a stored result. */
+  async markProcessed(jobId: string): Promise<void> {
+    await this.collection.updateOne({ jobId }, { $set: { processedAt: new Date() } });
+  }
+
+  /** Whether a result is stored and extraction has already run on it. */
+  async isProcessed(jobId: string): Promise<boolean> {
+    const doc = await this.collection.findOne(
+      { jobId, processedAt: { $exists: true } },
+      { projection: { _id: 1 } }
+    );
+    return doc !== null;
+  }
+
   async getResult(jobId: string): Promise<StoredResult | null> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
+    const doc = await this.collection.findOne({ jobId });
+    return doc && this.toResult(doc);
+  }
+
+  /** Most recent earlier crawl of the same URL that has html. */
+  private async findPreviousCrawl(result: FetchResult): Promise<StoredResultDocument | null> {
+    return this.collection.findOne(
+      { url: result.url, jobId: { $ne: result.jobId }, htmlHash: { $exists: true } },
+      { sort: { storedAt: -1 }, projection: { jobId: 1, htmlHash: 1 } }
+    );
+  }
+
+  /**
+   * Stream stored results matching a filter, oldest fetch first so later
+   * crawls of the same page are applied last when replayed.
+   */
+  async *findResults(filter: ResultFilter = {}): AsyncGenerator<StoredResult> {
+    const query = this.buildFilter(filter);
+    for await (const doc of this.collection.find(query).sort({ fetchedAt: 1 })) {
+      yield await this.toResult(doc);
+    }
+  }
+
+  /**
+   * Page through stored results, newest first (see ResultSort), without
+   * their payloads. Pass the returned nextCursor back to continue.
+   */
+  async browseResults(
+    filter: ResultFilter = {},
+    page: { cursor?: string; limit?: number; sort?: ResultSort } = {}
+  ): Promise<CursorPage<ResultSummary>> {
+    const query = this.buildFilter(filter);
+    const sort = BROWSE_SORTS[page.sort || 'newest'];
+    return fetchPage(sort, { cursor: page.cursor, limit: page.limit || 50 }, (after, limit) =>
+      this.collection
+        .find<ResultSummary>(after ? ({ $and: [query, after] } as Filter<StoredResultDocument>) : query, {
+          projection: { html: 0, htmlGz: 0, screenshot: 0, extractedData: 0 },
+        })
+        .sort(sort)
+        .limit(limit)
+        .toArray()
+    );
+  }
+
+  private buildFilter(filter: ResultFilter): Filter<StoredResultDocument> {
+    const query: Filter<StoredResultDocument> = {};
+    if (filter.domain) query.domain = filter.domain;
+    if (filter.state) query.state = filter.state;
+    if (filter.jobIds?.length) query.jobId = { $in: filter.jobIds };
+    if (filter.fetchedFrom || filter.fetchedTo) {
+      query.fetchedAt = {
+        ...(filter.fetchedFrom && { $gte: filter.fetchedFrom }),
+        ...(filter.fetchedTo && { $lte: filter.fetchedTo }),
+      };
     }
+    return query;
+  }
+
+  /**
+   * Drop html/screenshots of results stored longer ago than their retention
+   * window; metadata is kept. `byDomain` overrides `defaults` per
+   * scrape_jobs.domain. Returns the number of docs compacted per payload.
+   */
+  async applyRetention(
+    defaults: RetentionPolicies,
+    byDomain: Record<string, RetentionPolicies> = {}
+  ): Promise<{ html: number; screenshots: number }> {
+    const now = new Date();
+    const cutoff = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const sweeps = [
+      ...Object.entries(byDomain).map(([domain, policies]) => ({
+        filter: { domain } as Filter<StoredResultDocument>,
+        policies,
+      })),
+      {
+        filter: { domain: { $nin: Object.keys(byDomain) } } as Filter<StoredResultDocument>,
+        policies: defaults,
+      },
+    ];
+    const states: Record<keyof RetentionPolicies, Array<StoredResult['state']>> = {
+      completed: ['completed'],
+      failed: ['failed', 'unknown'],
+    };
+
+    const dropped = { html: 0, screenshots: 0 };
+    const released = new Set<string>();
+    for (const sweep of sweeps) {
+      for (const group of ['completed', 'failed'] as const) {
+        const policy = sweep.policies[group];
+        const scope = { ...sweep.filter, state: { $in: states[group] } };
+
+        if (policy.htmlDays > 0) {
+          dropped.html += await this.dropPayload(
+            {
+              ...scope,
+              storedAt: { $lt: cutoff(policy.htmlDays) },
+              $or: [
+                { htmlHash: { $exists: true } },
+                { htmlGz: { $exists: true } },
+                { html: { $exists: true, $ne: '' } },
+              ],
+            },
+            'htmlHash',
+            { htmlHash: '', htmlGz: '', html: '' },
+            { htmlDroppedAt: now },
+            released
+          );
+        }
+
+        if (policy.screenshotDays > 0) {
+          dropped.screenshots += await this.dropPayload(
+            {
+              ...scope,
+              storedAt: { $lt: cutoff(policy.screenshotDays) },
+              $or: [{ screenshotHash: { $exists: true } }, { screenshot: { $exists: true } }],
+            },
+            'screenshotHash',
+            { screenshotHash: '', screenshot: '' },
+            { screenshotDroppedAt: now },
+            released
+          );
+        }
+      }
+    }
+
+    await this.deleteUnreferencedBlobs([...released]);
+
+    if (dropped.html > 0 || dropped.screenshots > 0) {
+      console.log(
+        `Retention dropped html from ${dropped.html} and screenshots from ${dropped.screenshots} scrape job(s)`
+      );
+    }
+    return dropped;
+  }
+
+  /**
+   * Unset a payload on matching docs, collecting the blob hashes they
+   * referenced into `released`. Returns the number of docs changed.
+   */
+  private async dropPayload(
+    filter: Filter<StoredResultDocument>,
+    hashField: 'htmlHash' | 'screenshotHash',
+    unset: Record<string, ''>,
+    set: Partial<StoredResultDocument>,
+    released: Set<string>
+  ): Promise<number> {
+    const docs = await this.collection
+      .find(filter, { projection: { _id: 1, [hashField]: 1 } })
+      .toArray();
+    if (docs.length === 0) return 0;
+
+    for (const doc of docs) {
+      const hash = doc[hashField];
+      if (hash) released.add(hash);
+    }
+    const result = await this.collection.updateMany(
+      { _id: { $in: docs.map((doc) => doc._id!) } },
+      { $unset: unset, $set: set }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delete blobs that no scrape_jobs doc references anymore. A doc saved
+   * with the same content while a blob is being deleted is caught by
+   * checking again afterwards and restoring the blob (saveResult covers
+   * the other order by putting its blobs again after its write).
+   */
+  private async deleteUnreferencedBlobs(hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+
+    const referenced = await this.referencedBlobs(hashes);
+    for (const hash of hashes) {
+      if (referenced.has(hash)) continue;
+      const content = await this.blobs.get(hash);
+      await this.blobs.delete(hash);
+      if (content && (await this.referencedBlobs([hash])).has(hash)) {
+        await this.blobs.put(content);
+      }
+    }
+  }
+
+  private async referencedBlobs(hashes: string[]): Promise<Set<string | undefined>> {
+    return new Set([
+      ...(await this.collection.distinct('htmlHash', { htmlHash: { $in: hashes } })),
+      ...(await this.collection.distinct('screenshotHash', { screenshotHash: { $in: hashes } })),
+    ]);
+  }
+
+  /**
+   * Reader form of a stored doc: payloads loaded from the blob store (or
+   * legacy inline fields); html is '' once dropped.
+   */
+  private async toResult(doc: StoredResultDocument): Promise<StoredResult> {
+    const { htmlGz, html, screenshot, ...rest } = doc;
+    const result: StoredResult = { ...rest, html: htmlGz ? decompressText(htmlGz) : html || '' };
+
+    if (doc.htmlHash) {
+      result.html = (await this.loadBlob(doc.htmlHash, doc.jobId)) ?? '';
+    }
+    const screenshotData = doc.screenshotHash
+      ? await this.loadBlob(doc.screenshotHash, doc.jobId)
+      : screenshot;
+    if (screenshotData) result.screenshot = screenshotData;
+
+    return result;
+  }
 
-    return this.collection.findOne({ jobId });
+  private async loadBlob(hash: string, jobId: string): Promise<string | null> {
+    const content = await this.blobs.get(hash);
+    if (!content) {
+      console.warn(`Blob ${hash} referenced by job ${jobId} is missing`);
+      return null;
+    }
+    return content.toString('utf-8');
   }
 
   async getStats(): Promise<{
@@ -140,10 +350,6 @@ export class StorageService {
     failedJobs: number;
     byDomain: Record<string, { total: number; completed: number; failed: number }>;
   }> {
-    if (!this.collection) {
-      throw new Error('MongoDB not connected. Call connect() first.');
-    }
-
     const totalJobs = await this.collection.countDocuments();
     const completedJobs = await this.collection.countDocuments({ state: 'completed' });
     const failedJobs = await this.collection.countDocuments({ state: 'failed' });
@@ -177,13 +383,4 @@ export class StorageService {
 
     return { totalJobs, completedJobs, failedJobs, byDomain };
   }
-
-  async close(): Promise<void> {
-    if (this.client) {
-      await this.client.close();
-      this.db = null;
-      this.collection = null;
-      console.log('MongoDB connection closed');
-    }
-  }
 }
@@ -0,0 +1,294 @@
+import { Aggregator, createUpdater, find, Query } from 'mingo';
+// Every operator, not only mingo's default core set (update pipelines need $set)
+import 'mingo/init/system';
+import { BSON, Document, MongoBulkWriteError, ObjectId } from 'mongodb';
+import type { BlobStore } from '../services/blob-store.service';
+import { contentHash } from '../services/blob-store.service';
+import type { MongoConnectionService } from '../services/mongo-connection.service';
+import { valueAt } from '../utils/path';
+
+const applyOperator = createUpdater({ cloneMode: 'none' });
+
+/** Documents go in and out as BSON would carry them (undefined becomes null) */
+function copy<T>(value: T): T {
+  return (BSON.deserialize(BSON.serialize({ value }, { ignoreUndefined: false })) as { value: T })
+    .value;
+}
+
+function sameDoc(a: Document, b: Document): boolean {
+  return Buffer.compare(BSON.serialize(a), BSON.serialize(b)) === 0;
+}
+
+interface FindOptions {
+  projection?: Document;
+  sort?: Document;
+  limit?: number;
+}
+
+class FakeCursor<T> {
+  private options: FindOptions;
+
+  constructor(
+    private source: () => Document[],
+    private filter: Document,
+    options: FindOptions = {}
+  ) {
+    this.options = { ...options };
+  }
+
+  project<P = T>(projection: Document): FakeCursor<P> {
+    return new FakeCursor<P>(this.source, this.filter, { ...this.options, projection });
+  }
+
+  sort(sort: Document): this {
+    this.options.sort = sort;
+    return this;
+  }
+
+  limit(limit: number): this {
+    this.options.limit = limit;
+    return this;
+  }
+
+  async toArray(): Promise<T[]> {
+    let cursor = find(this.source(), this.filter, this.options.projection);
+    if (this.options.sort) cursor = cursor.sort(this.options.sort);
+    if (this.options.limit) cursor = cursor.limit(this.options.limit);
+    return copy(cursor.all()) as T[];
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    for (const doc of await this.toArray()) yield doc;
+  }
+}
+
+/**
+ * In-memory stand-in for the parts of a MongoDB Collection the services
+ * use, evaluating filters, updates and pipelines with mingo. `unique`
+ * lists the paths with a unique index; `failNext` makes the next call of a
+ * method throw.
+ */
+export class FakeCollection<T extends Document = Document> {
+  docs: Document[] = [];
+  private unique: string[];
+  private failures = new Map<string, Error>();
+
+  constructor(options: { unique?: string[] } = {}) {
+    this.unique = options.unique || [];
+  }
+
+  failNext(method: string, error: Error = new Error(`${method} failed`)): void {
+    this.failures.set(method, error);
+  }
+
+  find(filter: Document = {}, options: FindOptions = {}): FakeCursor<T> {
+    return new FakeCursor<T>(() => this.docs, filter, options);
+  }
+
+  async findOne(filter: Document = {}, options: FindOptions = {}): Promise<T | null> {
+    this.checkFailure('findOne');
+    const [doc] = await this.find(filter, { ...options, limit: 1 }).toArray();
+    return doc ?? null;
+  }
+
+  async countDocuments(filter: Document = {}): Promise<number> {
+    return this.matching(filter).length;
+  }
+
+  async distinct(path: string, filter: Document = {}): Promise<unknown[]> {
+    return [...new Set(this.matching(filter).map((doc) => valueAt(doc, path)))].filter(
+      (value) => value !== undefined
+    );
+  }
+
+  async insertOne(doc: Document): Promise<{ insertedId: unknown }> {
+    this.checkFailure('insertOne');
+    return { insertedId: this.insert(doc) };
+  }
+
+  async insertMany(docs: Document[], options: { ordered?: boolean } = {}): Promise<void> {
+    this.checkFailure('insertMany');
+    this.run(
+      docs.map((document) => ({ insertOne: { document } })),
+      options.ordered !== false
+    );
+  }
+
+  async updateOne(
+    filter: Document,
+    update: Document | Document[],
+    options: { upsert?: boolean } = {}
+  ) {
+    this.checkFailure('updateOne');
+    return this.update(filter, update, { ...options, multi: false });
+  }
+
+  async updateMany(filter: Document, update: Document | Document[]) {
+    this.checkFailure('updateMany');
+    return this.update(filter, update, { multi: true });
+  }
+
+  async deleteMany(filter: Document): Promise<{ deletedCount: number }> {
+    this.checkFailure('deleteMany');
+    const query = new Query(filter);
+    const before = this.docs.length;
+    this.docs = this.docs.filter((doc) => !query.test(doc));
+    return { deletedCount: before - this.docs.length };
+  }
+
+  async bulkWrite(operations: Document[], options: { ordered?: boolean } = {}): Promise<void> {
+    this.checkFailure('bulkWrite');
+    this.run(operations, options.ordered !== false);
+  }
+
+  /** Apply write operations, throwing MongoBulkWriteError for those that failed */
+  private run(operations: Document[], ordered: boolean): void {
+    // Shaped like the driver's WriteError, which it does not export
+    const writeErrors: Array<{ index: number; code: number; errmsg: string }> = [];
+    for (const [index, operation] of operations.entries()) {
+      try {
+        if (operation.insertOne) this.insert(operation.insertOne.document);
+        else if (operation.updateOne) {
+          const { filter, update, upsert } = operation.updateOne;
+          this.update(filter, update, { upsert, multi: false });
+        } else if (operation.updateMany) {
+          this.update(operation.updateMany.filter, operation.updateMany.update, { multi: true });
+        } else if (operation.deleteMany) {
+          void this.deleteMany(operation.deleteMany.filter);
+        } else throw new Error(`Unsupported operation ${Object.keys(operation)[0]}`);
+      } catch (error) {
+        const { code = 1, message } = error as { code?: number; message: string };
+        writeErrors.push({ index, code, errmsg: message });
+        if (ordered) break;
+      }
+    }
+    if (writeErrors.length > 0) {
+      const [{ errmsg: message, code }] = writeErrors;
+      throw new MongoBulkWriteError(
+        { message, code, writeErrors: writeErrors as never },
+        {} as never
+      );
+    }
+  }
+
+  private insert(doc: Document): unknown {
+    const stored = copy({ _id: new ObjectId(), ...doc });
+    this.checkUnique(stored);
+    this.docs.push(stored);
+    return stored._id;
+  }
+
+  private update(
+    filter: Document,
+    update: Document | Document[],
+    options: { upsert?: boolean; multi: boolean }
+  ): { matchedCount: number; modifiedCount: number; upsertedCount: number } {
+    const targets = this.matching(filter);
+    const matched = options.multi ? targets : targets.slice(0, 1);
+
+    if (matched.length === 0 && options.upsert) {
+      // Equality conditions of the filter seed the new doc, as in MongoDB
+      const seed = Object.fromEntries(
+        Object.entries(filter).filter(
+          ([key, value]) => !key.startsWith('$') && !isOperatorObject(value)
+        )
+      );
+      const doc = this.applied({ _id: new ObjectId(), ...copy(seed) }, update, true);
+      this.checkUnique(doc);
+      this.docs.push(doc);
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1 };
+    }
+
+    let modifiedCount = 0;
+    for (const target of matched) {
+      const next = this.applied(copy(target), update, false);
+      if (sameDoc(next, target)) continue;
+      this.checkUnique(next, target);
+      this.docs[this.docs.indexOf(target)] = next;
+      modifiedCount++;
+    }
+    return { matchedCount: matched.length, modifiedCount, upsertedCount: 0 };
+  }
+
+  private applied(doc: Document, update: Document | Document[], inserting: boolean): Document {
+    if (Array.isArray(update)) {
+      return copy(new Aggregator(update).run([doc])[0]);
+    }
+    for (const [operator, fields] of Object.entries(copy(update))) {
+      if (operator === '$setOnInsert') {
+        if (inserting) applyOperator(doc, { $set: fields });
+        continue;
+      }
+      applyOperator(doc, { [operator]: fields } as Parameters<typeof applyOperator>[1]);
+    }
+    return doc;
+  }
+
+  private matching(filter: Document): Document[] {
+    const query = new Query(filter);
+    return this.docs.filter((doc) => query.test(doc));
+  }
+
+  private checkUnique(doc: Document, replacing?: Document): void {
+    for (const path of this.unique) {
+      const value = valueAt(doc, path);
+      if (value === undefined) continue;
+      const taken = this.docs.some(
+        (other) => other !== replacing && sameDoc({ v: valueAt(other, path) }, { v: value })
+      );
+      if (taken) {
+        throw Object.assign(new Error(`E11000 duplicate key error: ${path}`), { code: 11000 });
+      }
+    }
+  }
+
+  private checkFailure(method: string): void {
+    const error = this.failures.get(method);
+    if (!error) return;
+    this.failures.delete(method);
+    throw error;
+  }
+}
+
+function isOperatorObject(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    Object.keys(value).some((key) => key.startsWith('$'))
+  );
+}
+
+/** MongoConnectionService over FakeCollections, created on first use */
+export function fakeMongo(unique: Record<string, string[]> = {}): {
+  mongo: MongoConnectionService;
+  collection: (name: string) => FakeCollection;
+} {
+  const collections = new Map<string, FakeCollection>();
+  const collection = (name: string) => {
+    if (!collections.has(name)) {
+      collections.set(name, new FakeCollection({ unique: unique[name] }));
+    }
+    return collections.get(name)!;
+  };
+  return { mongo: { collection } as unknown as MongoConnectionService, collection };
+}
+
+/** BlobStore keeping blobs in a Map */
+export class MemoryBlobStore implements BlobStore {
+  blobs = new Map<string, Buffer>();
+
+  async put(content: Buffer): Promise<string> {
+    const hash = contentHash(content);
+    this.blobs.set(hash, content);
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    return this.blobs.get(hash) ?? null;
+  }
+
+  async delete(hash: string): Promise<void> {
+    this.blobs.delete(hash);
+  }
+}
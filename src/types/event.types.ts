@@ -0,0 +1,108 @@
+import type { ObjectId } from 'mongodb';
+import type { NormalizedPrice } from './index';
+import type { RealEstateListing } from './real-estate.types';
+
+/**
+ * Domain events published on the outbound events queue. Each type's JSON
+ * shape is a contract with downstream consumers: fields may be added as
+ * optional, anything else needs a new `version`. Dates travel as ISO strings.
+ */
+interface EventEnvelope<T extends string, D> {
+  id: string; // UUID; also the BullMQ job id, for consumer-side dedupe
+  type: T;
+  version: 1;
+  occurredAt: Date; // when the change was observed
+  data: D;
+}
+
+interface ListingRef {
+  uniqueKey: string;
+  domain: string;
+  listingId: string;
+  url: string;
+}
+
+interface ProductRef {
+  uniqueKey: string;
+  domain: string;
+  productId: string;
+  url: string;
+}
+
+/** Event `price` fields are null when the record has no price */
+export interface EventPrice {
+  amount: number;
+  currency: string;
+  usdAmount?: number; // listings showing both currencies
+}
+
+export type ListingCreatedEvent = EventEnvelope<
+  'listing.created',
+  ListingRef & {
+    title: string;
+    listingType: RealEstateListing['listingType'];
+    propertyType: RealEstateListing['propertyType'];
+    district?: string;
+    price: EventPrice | null;
+    normalizedPrice?: NormalizedPrice;
+  }
+>;
+
+export type ListingPriceChangedEvent = EventEnvelope<
+  'listing.price_changed',
+  ListingRef & {
+    price: EventPrice | null;
+    previousPrice: EventPrice | null;
+    normalizedPrice?: NormalizedPrice;
+  }
+>;
+
+export type ListingDelistedEvent = EventEnvelope<
+  'listing.delisted',
+  ListingRef & { lastSeenAt: Date }
+>;
+
+export type ListingRelistedEvent = EventEnvelope<
+  'listing.relisted',
+  ListingRef & { delistedAt: Date | null }
+>;
+
+export type ProductCreatedEvent = EventEnvelope<
+  'product.created',
+  ProductRef & {
+    name: string;
+    brand?: string;
+    category?: string;
+    price: EventPrice | null;
+    normalizedPrice?: NormalizedPrice;
+  }
+>;
+
+export type ProductPriceChangedEvent = EventEnvelope<
+  'product.price_changed',
+  ProductRef & {
+    price: EventPrice | null;
+    previousPrice: EventPrice | null;
+    normalizedPrice?: NormalizedPrice;
+  }
+>;
+
+export type DomainEvent =
+  | ListingCreatedEvent
+  | ListingPriceChangedEvent
+  | ListingDelistedEvent
+  | ListingRelistedEvent
+  | ProductCreatedEvent
+  | ProductPriceChangedEvent;
+
+export type DomainEventType = DomainEvent['type'];
+
+/** An event waiting in (or already published from) event_outbox */
+export interface OutboxEntry {
+  _id?: ObjectId;
+  event: DomainEvent;
+  createdAt: Date;
+  publishedAt: Date | null;
+  attempts: number;
+  lastError?: string;
+}
@@ -1,3 +1,7 @@
+import type { Binary, ObjectId } from 'mongodb';
+import type { StoredProduct } from './product.types';
+import type { StoredListing } from './real-estate.types';
+
 export interface FetchResult {
   jobId: string;
   url: string;
@@ -24,6 +28,175 @@ export interface StoredResult extends FetchResult {
   state: 'completed' | 'failed' | 'unknown';
   domain: string;
   failureReason?: string;
+  // Content hashes of the payloads in the blob store
+  htmlHash?: string;
+  screenshotHash?: string;
+  // False when the html is byte-identical to the previous crawl of the URL
+  contentChanged?: boolean;
+  // Set once retention dropped the payload (html is then '')
+  htmlDroppedAt?: Date;
+  screenshotDroppedAt?: Date;
+  // Set once the queue listener has run extraction on the result
+  processedAt?: Date;
+}
+
+/**
+ * scrape_jobs document as stored: payloads live in the blob store and are
+ * referenced by htmlHash/screenshotHash. Inline `html`, `htmlGz` and
+ * `screenshot` only exist on docs saved before that (see migration 004).
+ */
+export type StoredResultDocument = Omit<StoredResult, 'html'> & {
+  html?: string;
+  htmlGz?: Binary;
+};
+
+/** How long raw fetch payloads are kept, in days (0 = forever). */
+export interface RetentionPolicy {
+  htmlDays: number;
+  screenshotDays: number;
+}
+
+/** Retention per scrape_jobs state; 'failed' also covers 'unknown'. */
+export type RetentionPolicies = Record<'completed' | 'failed', RetentionPolicy>;
+
+export type Vertical = 'products' | 'real-estate';
+
+export interface UpsertStats {
+  inserted: number;
+  updated: number;
+  errors: number;
+  // One entry per record that failed to upsert
+  failures?: Array<{ uniqueKey: string; error: string }>;
+}
+
+export interface UpsertOptions {
+  // When the record was actually observed. Defaults to now; reprocessing
+  // passes the original fetch time so lastSeenAt/history are not bumped.
+  observedAt?: Date;
+}
+
+/** What an upsert would do to one record, computed without writing. */
+export interface UpsertPreview {
+  uniqueKey: string;
+  action: 'insert' | 'update';
+  priceChanged: boolean;
+  changedFields: string[];
+}
+
+/**
+ * Records as a dry run has left them, by uniqueKey. Shared by the jobs of
+ * one run, so each job previews on top of the jobs before it.
+ */
+export interface PreviewState {
+  products: Map<string, StoredProduct>;
+  listings: Map<string, StoredListing>;
+}
+
+export interface ProcessingOptions extends UpsertOptions {
+  dryRun?: boolean;
+  previewState?: PreviewState;
+}
+
+/** Result of running one fetch result through extraction and upsert. */
+export interface ProcessingOutcome {
+  jobId: string;
+  url: string;
+  vertical: Vertical;
+  strategyUsed?: string;
+  extracted: number;
+  stats?: UpsertStats;
+  preview?: UpsertPreview[];
+  skippedReason?: string;
+  errors?: string[];
+  // Set when processing threw (e.g. the upsert itself failed)
+  exception?: string;
+}
+
+export type ExtractionFailureCause =
+  | 'no_data'
+  | 'no_strategy'
+  | 'extraction_error'
+  | 'no_results'
+  | 'upsert_errors'
+  | 'exception';
+
+/** Dead-letter record for a fetch result that did not yield stored records. */
+export interface ExtractionFailure {
+  _id?: ObjectId;
+  jobId: string;
+  url: string;
+  domain: string;
+  vertical: Vertical;
+  cause: ExtractionFailureCause;
+  strategyUsed?: string;
+  errors: string[];
+  itemErrors: Array<{ uniqueKey: string; error: string }>;
+  // Pointer to the raw fetch result this failure came from
+  scrapeJob: { collection: 'scrape_jobs'; jobId: string };
+  status: 'open' | 'resolved';
+  attempts: number;
+  firstFailedAt: Date;
+  lastFailedAt: Date;
+  resolvedAt?: Date;
 }
 
 export * from './product.types';
+
+export type RecordKind = 'product' | 'listing';
+
+/** Field-level changes applied to one product/listing by one upsert. */
+export interface ChangeLogEntry {
+  _id?: ObjectId;
+  uniqueKey: string;
+  kind: RecordKind;
+  domain: string;
+  jobId?: string;
+  changedAt: Date; // observation time of the incoming record
+  changes: Array<{ field: string; before: any; after: any }>;
+}
+
+/** Applied schema migration, tracked in the migrations collection. */
+export interface MigrationRecord {
+  _id?: ObjectId;
+  id: string;
+  description: string;
+  appliedAt: Date;
+  durationMs: number;
+  affected: number;
+}
+
+/** One observed price of a product/listing (price_observations time series). */
+export interface PriceObservation {
+  _id?: ObjectId;
+  observedAt: Date;
+  meta: { uniqueKey: string; domain: string; kind: RecordKind };
+  amount: number;
+  currency: string;
+  usdAmount?: number;
+  amountPen?: number;
+  amountUsd?: number;
+  jobId?: string;
+}
+
+/** Exchange rate of one currency on one day, as PEN per 1 unit. */
+export interface FxRate {
+  _id?: ObjectId;
+  currency: string;
+  date: Date; // UTC midnight of the day the rate applies from
+  rate: number;
+  source: 'csv' | 'manual';
+  updatedAt: Date;
+}
+
+/**
+ * Price converted with the FX rate in effect when it was observed. A side
+ * is omitted when no rate was available for the conversion.
+ */
+export interface NormalizedPrice {
+  amountPen?: number;
+  amountUsd?: number;
+  pricePerSqmPen?: number;
+  pricePerSqmUsd?: number;
+  // Day of the rate used (unset when no conversion was needed)
+  rateDate?: Date;
+}
@@ -1,3 +1,6 @@
+import type { NormalizedPrice } from './index';
+import type { DomainEvent } from './event.types';
+
 export interface ProductPrice {
   amount: number;
   currency: string;
@@ -88,11 +91,17 @@ export interface StoredProduct extends Product {
   firstSeenAt: Date;
   lastSeenAt: Date;
   lastUpdatedAt: Date;
+  active: boolean; // false once the product stops appearing in crawls (delisted)
+  delistedAt?: Date;
   priceHistory: Array<{
     price: ProductPrice;
     recordedAt: Date;
   }>;
+  // PEN/USD figures of `price` at the FX rate of its observation
+  normalizedPrice?: NormalizedPrice;
   version: number;
+  // Events written with the last change, until they are copied to event_outbox
+  pendingEvents?: DomainEvent[];
 }
 
 export interface ProductExtractionResult {
@@ -111,3 +120,65 @@ export interface ExtractionStrategy {
   canHandle(data: any, url: string): boolean;
   extract(data: any, url: string, jobId?: string): Product[];
 }
+
+/** Snapshot of a StoredProduct as written at a given version. */
+export interface ProductVersion {
+  _id?: string;
+  uniqueKey: string;
+  version: number;
+  observedAt: Date; // when the crawl saw this state
+  recordedAt: Date; // when this version was written
+  snapshot: Omit<StoredProduct, '_id'>;
+}
+
+/** A product watch rule stored in product_watches, evaluated on every upsert */
+export interface ProductWatchRule {
+  id: string;
+  name: string;
+  // Products the rule applies to; every field set must match
+  match: {
+    uniqueKey?: string;
+    brand?: string;
+    domain?: string;
+  };
+  // Conditions; the rule fires for each one met
+  priceDropPercent?: number; // price fell by at least this % in one observation
+  priceBelow?: number; // price crossed below this amount
+  // Compare priceBelow with the FX-normalized price instead of price.amount
+  priceCurrency?: 'PEN' | 'USD';
+  backInStock?: boolean; // availability flipped from unavailable to available
+  // Quiet period per product and condition after an alert
+  cooldownMinutes: number;
+  // Notifier names to deliver to; all configured notifiers when omitted
+  notifiers?: string[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ProductAlertKind = 'price_drop' | 'price_below' | 'back_in_stock';
+
+/** A watch rule firing for a product, stored in product_alerts */
+export interface ProductAlert {
+  ruleId: string;
+  ruleName: string;
+  uniqueKey: string;
+  kind: ProductAlertKind;
+  observedAt: Date;
+  product: {
+    name: string;
+    url: string;
+    domain: string;
+    brand?: string;
+    price: ProductPrice;
+    normalizedPrice?: NormalizedPrice;
+    availability: ProductAvailability;
+  };
+  previousPrice?: ProductPrice;
+  dropPercent?: number;
+  createdAt: Date;
+  // Set until the alert dispatcher has handed it to the notifiers
+  pendingDelivery?: true;
+  // Per notifier name
+  deliveries: Record<string, { deliveredAt?: Date; error?: string }>;
+}
@@ -1,3 +1,6 @@
+import type { NormalizedPrice } from './index';
+import type { DomainEvent } from './event.types';
+
 /**
  * Real Estate Listing Types
  */
@@ -92,6 +95,159 @@ export interface RealEstateListing {
   };
 }
 
+/** GeoJSON point; note the [longitude, latitude] order */
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+export interface StoredListing extends RealEstateListing {
+  uniqueKey: string; // domain:listingId
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  lastUpdatedAt: Date;
+  active: boolean; // false once the listing stops appearing in crawls (delisted)
+  delistedAt?: Date;
+  priceHistory?: Array<{
+    amount: number;
+    currency: string;
+    usdAmount?: number;
+    changedAt: Date;
+  }>;
+  // PEN/USD figures of `price` at the FX rate of its observation
+  normalizedPrice?: NormalizedPrice;
+  // location.coordinates as GeoJSON, for the 2dsphere index (absent when invalid)
+  geo?: GeoPoint | null;
+  // Events written with the last change, until they are copied to event_outbox
+  pendingEvents?: DomainEvent[];
+  // delistedAt of the sweep, until its listing.delisted event is in event_outbox
+  delistedEventPending?: Date;
+}
+
+export interface ListingSearchQuery {
+  domain?: string;
+  listingType?: RealEstateListing['listingType'];
+  propertyType?: RealEstateListing['propertyType'];
+  district?: string;
+  neighborhood?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Compare and sort prices on the FX-normalized amount in this currency
+  // instead of the raw (mixed-currency) price.amount
+  priceCurrency?: 'PEN' | 'USD';
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  minArea?: number; // details.totalArea, sqm
+  maxArea?: number;
+  firstSeenFrom?: Date;
+  firstSeenTo?: Date;
+  // Only listings changed at or after this time (incremental exports)
+  updatedSince?: Date;
+  textSearch?: string;
+  // Listings within maxDistanceMeters of a point (any distance if omitted);
+  // results then carry distanceMeters and default to nearest first
+  near?: { lat: number; lng: number; maxDistanceMeters?: number };
+  // Listings inside a polygon (ring of at least 3 vertices, closed automatically)
+  withinPolygon?: Array<{ lat: number; lng: number }>;
+  status?: 'active' | 'delisted' | 'all'; // default 'active'
+  // Default 'newest' (first seen), or 'distance' with `near`; the other
+  // sort keys change on recrawls, so listings can move between pages
+  sort?: 'recent' | 'newest' | 'price_asc' | 'price_desc' | 'distance';
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+/** A listing search stored in saved_searches and evaluated on every upsert */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  // Filters only; sort and pagination fields are ignored
+  query: ListingSearchQuery;
+  // Notifier names to deliver to; all configured notifiers when omitted
+  notifiers?: string[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A listing newly matching a saved search, stored in listing_alerts */
+export interface ListingAlert {
+  searchId: string;
+  searchName: string;
+  uniqueKey: string;
+  reason: 'new' | 'repriced';
+  observedAt: Date;
+  listing: {
+    title: string;
+    url: string;
+    listingType: RealEstateListing['listingType'];
+    district?: string;
+    price: RealEstateListing['price'];
+    normalizedPrice?: NormalizedPrice;
+  };
+  previousPrice?: { amount: number; currency: string };
+  createdAt: Date;
+  // Set until the alert dispatcher has handed it to the notifiers
+  pendingDelivery?: true;
+  // Per notifier name
+  deliveries: Record<string, { deliveredAt?: Date; error?: string }>;
+}
+
+/** 25th/50th/75th percentiles of a set of prices */
+export interface PriceDistribution {
+  count: number;
+  p25: number;
+  median: number;
+  p75: number;
+}
+
+export type MarketGrouping = 'district' | 'neighborhood' | 'bedrooms';
+
+/**
+ * Market figures for one segment of active listings, materialized in
+ * market_segments. Segments are keyed by district, listingType and
+ * propertyType, plus neighborhood or bedrooms depending on `groupBy`.
+ */
+export interface MarketSegment {
+  computedAt: Date;
+  groupBy: MarketGrouping;
+  district: string;
+  neighborhood?: string;
+  listingType: RealEstateListing['listingType'];
+  propertyType: RealEstateListing['propertyType'];
+  bedrooms?: number; // capped: the last bucket holds that many or more
+  activeListings: number;
+  newListings: number; // first seen in the 7 days before computedAt
+  price: Record<'PEN' | 'USD', PriceDistribution | null>;
+  pricePerSqm: Record<'PEN' | 'USD', PriceDistribution | null>;
+}
+
+/** Weekly history of a district's listings of one type, in market_series */
+export interface MarketSeries {
+  computedAt: Date;
+  district: string;
+  listingType: RealEstateListing['listingType'];
+  points: Array<{
+    weekStart: Date; // Monday 00:00 UTC
+    newListings: number;
+    delistedListings: number;
+    inventory: number; // live at the end of the week (or now, for the current week)
+    medianPrice: Record<'PEN' | 'USD', number | null>;
+  }>;
+}
+
+/** A finished analytics refresh, in market_runs; written after its segments and series */
+export interface MarketRun {
+  computedAt: Date;
+  completedAt: Date;
+  listings: number;
+  segments: number;
+  series: number;
+}
+
 export interface RealEstateExtractionResult {
   listings: RealEstateListing[];
   metadata: {
@@ -0,0 +1,32 @@
+import { Collection, AnyBulkWriteOperation, MongoBulkWriteError, Document } from 'mongodb';
+
+/**
+ * Execute an unordered bulkWrite and map failed operations back to the
+ * record key they belong to (`opKeys[i]` belongs to `operations[i]`).
+ * Returns key -> error message for every operation that did not apply.
+ */
+export async function runBulkWrite<T extends Document>(
+  collection: Collection<T>,
+  operations: AnyBulkWriteOperation<T>[],
+  opKeys: string[]
+): Promise<Map<string, string>> {
+  const failed = new Map<string, string>();
+  if (operations.length === 0) return failed;
+
+  try {
+    await collection.bulkWrite(operations, { ordered: false });
+  } catch (error) {
+    if (error instanceof MongoBulkWriteError) {
+      const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+      for (const writeError of writeErrors) {
+        failed.set(opKeys[writeError.index], writeError.errmsg || 'Bulk write error');
+      }
+    } else {
+      // Nothing is known to have been written
+      const message = error instanceof Error ? error.message : String(error);
+      opKeys.forEach((key) => failed.set(key, message));
+    }
+  }
+
+  return failed;
+}
@@ -0,0 +1,12 @@
+import { gzipSync, gunzipSync } from 'zlib';
+import { Binary } from 'mongodb';
+
+/** Gzip a string for storage as BSON binary. */
+export function compressText(text: string): Binary {
+  return new Binary(gzipSync(Buffer.from(text, 'utf-8')));
+}
+
+/** Inverse of compressText. */
+export function decompressText(data: Binary): string {
+  return gunzipSync(data.buffer).toString('utf-8');
+}
@@ -0,0 +1,85 @@
+import { ObjectId } from 'mongodb';
+import { describe, expect, it } from 'vitest';
+import { FakeCollection } from '../test/fake-mongo';
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchPage,
+  InvalidCursorError,
+  keysetFilter,
+  SortSpec,
+  stableSort,
+} from './cursor';
+
+/** Every doc of `collection` in `sort` order, read `limit` at a time */
+async function readAll(collection: FakeCollection, sort: SortSpec, limit: number) {
+  const seen: unknown[] = [];
+  let cursor: string | undefined;
+  for (let pages = 0; pages < 100; pages++) {
+    const page = await fetchPage(sort, { cursor, limit }, (after, max) =>
+      collection.find(after || {}).sort(sort).limit(max).toArray()
+    );
+    seen.push(...page.items.map((doc) => doc.n));
+    if (!page.nextCursor) return seen;
+    cursor = page.nextCursor;
+  }
+  throw new Error('pagination did not end');
+}
+
+describe('cursor', () => {
+  it('round-trips dates and ObjectIds through a cursor', () => {
+    const sort = stableSort({ seenAt: -1 });
+    const doc = { _id: new ObjectId(), seenAt: new Date('2026-01-02T03:04:05Z') };
+
+    const values = decodeCursor(encodeCursor(doc, sort), sort);
+
+    expect(values).toEqual([doc.seenAt, doc._id]);
+    expect(values[0]).toBeInstanceOf(Date);
+    expect(values[1]).toBeInstanceOf(ObjectId);
+  });
+
+  it('rejects malformed cursors and cursors issued for another sort', () => {
+    const cursor = encodeCursor({ _id: new ObjectId(), price: 10 }, { price: 1, _id: 1 });
+
+    expect(() => decodeCursor('not a cursor', { price: 1, _id: 1 })).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(cursor, { price: -1, _id: 1 })).toThrow(InvalidCursorError);
+  });
+
+  it('keeps an existing _id tiebreaker', () => {
+    expect(stableSort({ _id: -1 })).toEqual({ _id: -1 });
+    expect(stableSort({ price: 1 })).toEqual({ price: 1, _id: 1 });
+  });
+
+  it('matches nothing after the last position of a descending sort', () => {
+    expect(keysetFilter({ price: -1 }, [null])).toEqual({ _id: { $exists: false } });
+  });
+
+  describe('fetchPage', () => {
+    // Ties and missing values on the sort key, which only _id tells apart
+    const prices = [30, 10, null, 20, 10, 30, null, 10, 20, 40, 10, 30];
+    const collection = new FakeCollection();
+    prices.forEach((price, n) => {
+      collection.docs.push({ _id: new ObjectId(), n, ...(price !== null && { price }) });
+    });
+
+    const sorts: SortSpec[] = [{ price: 1, _id: 1 }, { price: -1, _id: 1 }, { price: -1, _id: -1 }];
+    for (const sort of sorts) {
+      it(`returns every doc once, in order, sorting by ${JSON.stringify(sort)}`, async () => {
+        const expected = (await collection.find().sort(sort).toArray()).map((doc) => doc.n);
+
+        for (const limit of [1, 2, 3, 5, 12, 20]) {
+          expect(await readAll(collection, sort, limit)).toEqual(expected);
+        }
+      });
+    }
+
+    it('returns no cursor on the last page', async () => {
+      const page = await fetchPage({ _id: 1 }, { limit: prices.length }, (after, max) =>
+        collection.find(after || {}).sort({ _id: 1 }).limit(max).toArray()
+      );
+
+      expect(page.items).toHaveLength(prices.length);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { BSON, Document, Filter } from 'mongodb';
+import { valueAt } from './path';
+
+/** Sort used for keyset pagination; always ends with `_id` as tiebreaker */
+export type SortSpec = Record<string, 1 | -1>;
+
+export interface CursorPage<T> {
+  items: T[];
+  // Opaque; pass back to get the next page. null on the last page.
+  nextCursor: string | null;
+}
+
+/** A cursor that is malformed or was issued for a different sort. */
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/** `sort` with `_id` appended, so every position is unique. */
+export function stableSort(sort: SortSpec): SortSpec {
+  return '_id' in sort ? sort : { ...sort, _id: 1 };
+}
+
+/**
+ * Cursor pointing just past `doc`: the doc's sort-key values plus the sort
+ * they belong to, as base64url EJSON (keeps Dates and ObjectIds typed).
+ */
+export function encodeCursor(doc: Document, sort: SortSpec): string {
+  const values = Object.keys(sort).map((path) => valueAt(doc, path) ?? null);
+  return Buffer.from(BSON.EJSON.stringify({ s: sort, v: values })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: SortSpec): unknown[] {
+  let decoded: { s?: unknown; v?: unknown };
+  try {
+    decoded = BSON.EJSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!Array.isArray(decoded?.v) || JSON.stringify(decoded.s) !== JSON.stringify(sort)) {
+    throw new InvalidCursorError('Cursor does not match the requested sort');
+  }
+  return decoded.v;
+}
+
+/**
+ * Filter for docs strictly after `values` in `sort` order. Missing/null
+ * values sort first ascending and last descending, as MongoDB orders them.
+ */
+export function keysetFilter(sort: SortSpec, values: unknown[]): Filter<Document> {
+  const fields = Object.keys(sort);
+  const branches: Document[] = [];
+
+  fields.forEach((field, i) => {
+    const value = values[i];
+    let after: Document | null;
+    if (sort[field] === 1) {
+      after = value === null ? { [field]: { $ne: null } } : { [field]: { $gt: value } };
+    } else {
+      after =
+        value === null ? null : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+    }
+    if (!after) return;
+
+    const equal = fields.slice(0, i).map((prev, j) => ({ [prev]: values[j] }));
+    branches.push(equal.length ? { $and: [...equal, after] } : after);
+  });
+
+  // Nothing can follow (e.g. every key null in a descending sort)
+  return branches.length ? { $or: branches } : { _id: { $exists: false } };
+}
+
+/**
+ * Fetch one page: `limit + 1` docs are read to know whether another page
+ * follows. `fetch` receives the keyset filter (if any) and the limit.
+ */
+export async function fetchPage<T extends Document>(
+  sort: SortSpec,
+  options: { cursor?: string; limit: number },
+  fetch: (after: Filter<Document> | null, limit: number) => Promise<T[]>
+): Promise<CursorPage<T>> {
+  const after = options.cursor
+    ? keysetFilter(sort, decodeCursor(options.cursor, sort))
+    : null;
+  const docs = await fetch(after, options.limit + 1);
+  const items = docs.slice(0, options.limit);
+  const more = docs.length > options.limit;
+  return {
+    items,
+    nextCursor: more ? encodeCursor(items[items.length - 1], sort) : null,
+  };
+}
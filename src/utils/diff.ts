@@ -0,0 +1,79 @@
+/**
+ * Top-level fields of `incoming` whose value differs from `existing`.
+ * Values are compared structurally (dates by timestamp), and fields absent
+ * from `incoming` are ignored since upserts only `$set` what they receive.
+ */
+export function changedFields(
+  existing: Record<string, any>,
+  incoming: Record<string, any>,
+  ignore: string[] = []
+): string[] {
+  return Object.keys(incoming).filter(
+    (key) =>
+      !ignore.includes(key) &&
+      incoming[key] !== undefined &&
+      !isEqual(existing[key], incoming[key])
+  );
+}
+
+/** Structural equality for plain JSON-like values (objects, arrays, dates). */
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a).filter((k) => a[k] !== undefined);
+  const keysB = Object.keys(b).filter((k) => b[k] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((k) => isEqual(a[k], b[k]));
+}
+
+export interface FieldChange {
+  field: string; // dot path, e.g. "details.bedrooms"
+  before: any;
+  after: any;
+}
+
+/**
+ * Field-level diff of an incoming record against the stored one, mirroring
+ * what a `$set` of the incoming top-level fields does: only keys present in
+ * `incoming` are compared, and nested plain objects (which `$set` replaces
+ * wholesale) are walked key by key so changes get precise paths. Arrays and
+ * dates are compared as values; null and undefined are treated as equal.
+ */
+export function diffFields(
+  existing: Record<string, any>,
+  incoming: Record<string, any>,
+  ignore: string[] = []
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const key of Object.keys(incoming)) {
+    if (ignore.includes(key)) continue;
+    collectChanges(key, existing[key], incoming[key], changes);
+  }
+  return changes;
+}
+
+function collectChanges(path: string, before: any, after: any, changes: FieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collectChanges(`${path}.${key}`, before[key], after[key], changes);
+    }
+    return;
+  }
+
+  if ((before ?? null) === null && (after ?? null) === null) return;
+  if (!isEqual(before, after)) {
+    changes.push({ field: path, before: before ?? null, after: after ?? null });
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
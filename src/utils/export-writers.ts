@@ -0,0 +1,152 @@
+import { once } from 'events';
+import type { Writable } from 'stream';
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer';
+import type { BasicType, Writer } from 'hyparquet-writer';
+import type { ExportColumn, ExportColumnType } from '../config/export-columns';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+/** Column name -> value (string, number, boolean, Date, array/object for json, or null) */
+export type ExportRow = Record<string, unknown>;
+
+/** Serializes batches of rows to an output stream in one format. */
+export interface RowWriter {
+  write(rows: ExportRow[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+export function createRowWriter(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  out: Writable
+): RowWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvWriter(columns, out);
+    case 'ndjson':
+      return new NdjsonWriter(columns, out);
+    case 'parquet':
+      return new ParquetRowWriter(columns, out);
+  }
+}
+
+/** Write respecting backpressure */
+async function writeChunk(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (!out.write(chunk)) await once(out, 'drain');
+}
+
+class CsvWriter implements RowWriter {
+  private columns: ExportColumn[];
+  private out: Writable;
+  private headerWritten = false;
+
+  constructor(columns: ExportColumn[], out: Writable) {
+    this.columns = columns;
+    this.out = out;
+  }
+
+  async write(rows: ExportRow[]): Promise<void> {
+    const lines = rows.map((row) =>
+      this.columns.map((column) => csvField(row[column.name], column.type)).join(',')
+    );
+    if (!this.headerWritten) {
+      lines.unshift(this.columns.map((column) => csvField(column.name, 'string')).join(','));
+      this.headerWritten = true;
+    }
+    if (lines.length > 0) await writeChunk(this.out, lines.join('\r\n') + '\r\n');
+  }
+
+  async finish(): Promise<void> {
+    await this.write([]);
+  }
+}
+
+function csvField(value: unknown, type: ExportColumnType): string {
+  if (value === null || value === undefined) return '';
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : type === 'json'
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+class NdjsonWriter implements RowWriter {
+  private columns: ExportColumn[];
+  private out: Writable;
+
+  constructor(columns: ExportColumn[], out: Writable) {
+    this.columns = columns;
+    this.out = out;
+  }
+
+  async write(rows: ExportRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    const lines = rows.map((row) => {
+      const record: Record<string, unknown> = {};
+      for (const column of this.columns) record[column.name] = row[column.name] ?? null;
+      return JSON.stringify(record);
+    });
+    await writeChunk(this.out, lines.join('\n') + '\n');
+  }
+
+  async finish(): Promise<void> {}
+}
+
+const PARQUET_TYPES: Record<ExportColumnType, BasicType> = {
+  string: 'STRING',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+  date: 'TIMESTAMP',
+  json: 'JSON',
+};
+
+/**
+ * Parquet output, one row group per batch. Encoded bytes are flushed to the
+ * stream after every row group, so memory is bounded by the batch size.
+ */
+class ParquetRowWriter implements RowWriter {
+  private columns: ExportColumn[];
+  private writer: ParquetWriter;
+
+  constructor(columns: ExportColumn[], out: Writable) {
+    this.columns = columns;
+    const schema = schemaFromColumnData({
+      columnData: columns.map((column) => ({
+        name: column.name,
+        data: [],
+        type: PARQUET_TYPES[column.type],
+        nullable: true,
+      })),
+    });
+    this.writer = new ParquetWriter({ writer: streamWriter(out), schema });
+  }
+
+  async write(rows: ExportRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    await this.writer.write({
+      columnData: this.columns.map((column) => ({
+        name: column.name,
+        data: rows.map((row) => row[column.name] ?? null),
+      })),
+      rowGroupSize: rows.length,
+    });
+  }
+
+  async finish(): Promise<void> {
+    await this.writer.finish();
+  }
+}
+
+/** hyparquet-writer Writer that hands each flushed chunk to a stream */
+function streamWriter(out: Writable): Writer {
+  const writer = new ByteWriter();
+  const flush = async () => {
+    // Copy: the buffer is reused for the next row group
+    const chunk = Buffer.from(new Uint8Array(writer.buffer, 0, writer.index));
+    writer.index = 0;
+    await writeChunk(out, chunk);
+  };
+  return Object.assign(writer, { flush, finish: flush });
+}
@@ -0,0 +1,33 @@
+import type { GeoPoint } from '../types/real-estate.types';
+
+// Mean Earth radius used by MongoDB for spherical queries
+export const EARTH_RADIUS_METERS = 6378100;
+
+/**
+ * GeoJSON point for extracted {lat, lng} coordinates, or null when they are
+ * missing, out of range or the 0,0 placeholder some sites emit.
+ */
+export function toGeoPoint(coordinates?: { lat: number; lng: number }): GeoPoint | null {
+  if (!coordinates) return null;
+  const lat = Number(coordinates.lat);
+  const lng = Number(coordinates.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  if (lat === 0 && lng === 0) return null;
+  return { type: 'Point', coordinates: [lng, lat] };
+}
+
+/**
+ * Great-circle distance in meters from `from` to a GeoJSON point, as
+ * MongoDB computes it for spherical queries.
+ */
+export function sphericalDistance(from: { lat: number; lng: number }, to: GeoPoint): number {
+  const [lng, lat] = to.coordinates;
+  const rad = Math.PI / 180;
+  const dLat = (lat - from.lat) * rad;
+  const dLng = (lng - from.lng) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.lat * rad) * Math.cos(lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
@@ -0,0 +1,4 @@
+/** Value at a dot path (`price.amount`) of a document, or undefined. */
+export function valueAt(doc: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value?.[key], doc);
+}
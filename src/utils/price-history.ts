@@ -0,0 +1,35 @@
+/**
+ * True when an observation should refresh a stored record's current fields:
+ * it is newer than the last sighting, or it replays the crawl that produced
+ * the stored values (reprocessing the latest job after a selector fix).
+ */
+export function refreshesRecord(
+  existing: { lastSeenAt: Date; source: { jobId?: string } },
+  incoming: { source: { jobId?: string } },
+  observedAt: Date
+): boolean {
+  if (observedAt > existing.lastSeenAt) return true;
+  return !!incoming.source.jobId && incoming.source.jobId === existing.source.jobId;
+}
+
+/**
+ * Price history with a backdated entry (reprocessing, failure replay) put at
+ * its chronological place, or null when a neighbouring entry already shows
+ * that price and the history would not change.
+ */
+export function insertBackdatedEntry<T>(
+  history: T[],
+  entry: T,
+  at: (item: T) => Date,
+  samePrice: (a: T, b: T) => boolean
+): T[] | null {
+  const time = at(entry).getTime();
+  let index = history.findIndex((item) => at(item).getTime() > time);
+  if (index === -1) index = history.length;
+
+  const before = history[index - 1];
+  const after = history[index];
+  if ((before && samePrice(before, entry)) || (after && samePrice(after, entry))) return null;
+
+  return [...history.slice(0, index), entry, ...history.slice(index)];
+}
@@ -0,0 +1,25 @@
+import type { PriceDistribution } from '../types/real-estate.types';
+
+/** Percentile `p` (0..1) of ascending `sorted` values, linearly interpolated */
+export function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/** Quartiles of `values` (rounded to cents), or null when there are none */
+export function distribution(values: number[]): PriceDistribution | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p25: round(percentile(sorted, 0.25)),
+    median: round(percentile(sorted, 0.5)),
+    p75: round(percentile(sorted, 0.75)),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}